@@ -0,0 +1,272 @@
+/**
+ * Anvil Simulation
+ *
+ * Backs SIMULATE=anvil for the deployment scripts: starts a local anvil node,
+ * makes the IconRegistry proxy available at its mainnet address, impersonates
+ * the owner and hands the script a wallet client, so the script runs its real
+ * setIconsBatch / mapTokensBatch / mapChain calls. At the end it reports the
+ * exact gas of every transaction and the registry's post-state.
+ *
+ * State source (first match wins):
+ *   ANVIL_STATE=<file>     - Load a local snapshot written by `anvil --dump-state`
+ *   ANVIL_FORK_URL=<rpc>   - Fork mainnet (optionally at ANVIL_FORK_BLOCK)
+ *   (neither)              - Fresh deploy from forge artifacts (`forge build` first)
+ *
+ * Usage:
+ *   SIMULATE=anvil ANVIL_FORK_URL=https://eth.drpc.org npx tsx scripts/setup-chain-mappings.ts
+ *
+ *   const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+ *   const { client: walletClient, address } = sim ? sim.signer : await createSigner();
+ *   ...
+ *   await sim?.finish({ 'Chain 1': await registry.chainToIcon(1) });
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createPublicClient,
+    createTestClient,
+    createWalletClient,
+    encodeFunctionData,
+    http,
+    parseEther,
+    type PublicClient,
+    type TestClient,
+    type TransactionReceipt,
+} from 'viem';
+import { mainnet } from 'viem/chains';
+import { createIconRegistryClient, PROXY_ADDRESS } from './icon-registry-client';
+import type { Signer } from './signer';
+
+const ARTIFACTS_DIR = path.join(__dirname, '..', 'out');
+
+// ERC1967 implementation slot
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// First default anvil account; owns the registry in fresh deploys
+const ANVIL_DEFAULT_ACCOUNT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as const;
+
+const INITIALIZE_ABI = [
+    {
+        name: 'initialize',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [{ name: 'owner_', type: 'address' }],
+        outputs: [],
+    },
+] as const;
+
+export type SimulationSource = 'snapshot' | 'fork' | 'fresh';
+
+export interface AnvilSimulationConfig {
+    stateFile?: string;
+    forkUrl?: string;
+    forkBlockNumber?: bigint;
+    port?: number;
+    /** Defaults to the registry owner (fork/snapshot) or anvil account 0 (fresh) */
+    owner?: `0x${string}`;
+}
+
+export interface SimulatedTx {
+    hash: `0x${string}`;
+    to: `0x${string}` | null;
+    status: TransactionReceipt['status'];
+    gasUsed: bigint;
+}
+
+export interface AnvilSimulation {
+    source: SimulationSource;
+    rpcUrl: string;
+    publicClient: PublicClient;
+    /** Same shape as createSigner() so scripts can swap it in */
+    signer: Signer;
+    /** Throwaway journal path so simulated batches never touch journals/ */
+    journalFile(name: string): string;
+
+    /** Every transaction mined since the simulation started */
+    transactions(): Promise<SimulatedTx[]>;
+    /** Print the gas report and post-state, then stop anvil */
+    finish(postState?: Record<string, unknown>): Promise<void>;
+    stop(): void;
+}
+
+/** True when the script should run against a local anvil node */
+export function isSimulation(): boolean {
+    const mode = process.env.SIMULATE;
+    if (mode && mode !== 'anvil') {
+        throw new Error(`Unsupported SIMULATE mode: ${mode} (expected "anvil")`);
+    }
+    return mode === 'anvil';
+}
+
+export function anvilSimulationEnv(): AnvilSimulationConfig {
+    return {
+        stateFile: process.env.ANVIL_STATE || undefined,
+        forkUrl: process.env.ANVIL_FORK_URL || undefined,
+        forkBlockNumber: process.env.ANVIL_FORK_BLOCK ? BigInt(process.env.ANVIL_FORK_BLOCK) : undefined,
+        port: process.env.ANVIL_PORT ? parseInt(process.env.ANVIL_PORT) : undefined,
+        owner: (process.env.ANVIL_OWNER as `0x${string}`) || undefined,
+    };
+}
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function readArtifact(file: string, contract: string): { bytecode: `0x${string}`; deployedBytecode: `0x${string}` } {
+    const artifactPath = path.join(ARTIFACTS_DIR, file, `${contract}.json`);
+    if (!fs.existsSync(artifactPath)) {
+        throw new Error(`Artifact not found: ${artifactPath}. Run 'forge build' first.`);
+    }
+    const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf-8'));
+    return {
+        bytecode: artifact.bytecode.object,
+        deployedBytecode: artifact.deployedBytecode.object,
+    };
+}
+
+async function waitForAnvil(child: ChildProcess, publicClient: PublicClient, timeoutMs = 30_000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        if (child.exitCode !== null) {
+            throw new Error(`anvil exited with code ${child.exitCode}`);
+        }
+        try {
+            await publicClient.getChainId();
+            return;
+        } catch {
+            await sleep(250);
+        }
+    }
+    throw new Error(`anvil did not start within ${timeoutMs / 1000}s`);
+}
+
+/**
+ * Deploy a fresh implementation and install an ERC1967 proxy at the mainnet
+ * proxy address, so scripts that hardcode PROXY_ADDRESS work unchanged.
+ */
+async function deployFreshRegistry(testClient: TestClient, publicClient: PublicClient, owner: `0x${string}`): Promise<void> {
+    const implementation = readArtifact('IconRegistry.sol', 'IconRegistry');
+    const proxy = readArtifact('ERC1967Proxy.sol', 'ERC1967Proxy');
+
+    // Anvil's default accounts are unlocked, so the node signs for them
+    const deployer = createWalletClient({ account: ANVIL_DEFAULT_ACCOUNT, chain: mainnet, transport: http(testClient.transport.url) });
+
+    const deployHash = await deployer.sendTransaction({ data: implementation.bytecode });
+    const deployReceipt = await publicClient.waitForTransactionReceipt({ hash: deployHash });
+    if (!deployReceipt.contractAddress) throw new Error('IconRegistry implementation deployment failed');
+
+    await testClient.setCode({ address: PROXY_ADDRESS, bytecode: proxy.deployedBytecode });
+    await testClient.setStorageAt({
+        address: PROXY_ADDRESS,
+        index: IMPLEMENTATION_SLOT,
+        value: `0x${deployReceipt.contractAddress.slice(2).toLowerCase().padStart(64, '0')}`,
+    });
+
+    const initHash = await deployer.sendTransaction({
+        to: PROXY_ADDRESS,
+        data: encodeFunctionData({ abi: INITIALIZE_ABI, functionName: 'initialize', args: [owner] }),
+    });
+    const initReceipt = await publicClient.waitForTransactionReceipt({ hash: initHash });
+    if (initReceipt.status !== 'success') throw new Error('IconRegistry initialize failed');
+}
+
+export async function startAnvilSimulation(config: AnvilSimulationConfig = anvilSimulationEnv()): Promise<AnvilSimulation> {
+    const port = config.port ?? 8546;
+    const rpcUrl = `http://127.0.0.1:${port}`;
+    const source: SimulationSource = config.stateFile ? 'snapshot' : config.forkUrl ? 'fork' : 'fresh';
+
+    // Zero base fee so the scripts' gas-price gates pass; the report is in gas, not ETH
+    const args = ['--port', String(port), '--chain-id', '1', '--block-base-fee-per-gas', '0', '--silent'];
+    if (config.stateFile) args.push('--load-state', config.stateFile);
+    if (config.forkUrl) {
+        args.push('--fork-url', config.forkUrl);
+        if (config.forkBlockNumber !== undefined) args.push('--fork-block-number', config.forkBlockNumber.toString());
+    }
+
+    console.log(`[simulate] Starting anvil (${source}) on ${rpcUrl}...`);
+    const child = spawn('anvil', args, { stdio: ['ignore', 'ignore', 'inherit'] });
+    child.on('error', err => console.error(`[simulate] Failed to start anvil: ${err.message}`));
+    const stop = () => {
+        if (child.exitCode === null) child.kill();
+    };
+    process.on('exit', stop);
+
+    const publicClient = createPublicClient({ chain: mainnet, transport: http(rpcUrl) }) as PublicClient;
+    const testClient = createTestClient({ chain: mainnet, mode: 'anvil', transport: http(rpcUrl) });
+
+    try {
+        await waitForAnvil(child, publicClient);
+
+        const registry = createIconRegistryClient({ publicClient });
+        let owner = config.owner;
+        if (source === 'fresh') {
+            owner ??= ANVIL_DEFAULT_ACCOUNT;
+            await deployFreshRegistry(testClient, publicClient, owner);
+        } else {
+            owner ??= await registry.owner();
+        }
+
+        await testClient.impersonateAccount({ address: owner });
+        await testClient.setBalance({ address: owner, value: parseEther('100') });
+
+        const startBlock = await publicClient.getBlockNumber();
+        const iconsBefore = await registry.totalIcons();
+        console.log(`[simulate] Registry ${PROXY_ADDRESS}: ${iconsBefore} icons, owner ${owner} (impersonated)\n`);
+
+        const client = createWalletClient({ account: owner, chain: mainnet, transport: http(rpcUrl) });
+
+        const sim: AnvilSimulation = {
+            source,
+            rpcUrl,
+            publicClient,
+            signer: { backend: 'impersonated', client, address: owner, exportOnly: false },
+
+            journalFile: (name) => path.join(os.tmpdir(), `iconregistry-sim-${name}-${process.pid}.json`),
+
+            transactions: async () => {
+                const latest = await publicClient.getBlockNumber();
+                const txs: SimulatedTx[] = [];
+                for (let n = startBlock + 1n; n <= latest; n++) {
+                    const block = await publicClient.getBlock({ blockNumber: n });
+                    for (const hash of block.transactions) {
+                        const receipt = await publicClient.getTransactionReceipt({ hash });
+                        txs.push({ hash, to: receipt.to, status: receipt.status, gasUsed: receipt.gasUsed });
+                    }
+                }
+                return txs;
+            },
+
+            finish: async (postState = {}) => {
+                const txs = await sim.transactions();
+                const totalGas = txs.reduce((sum, tx) => sum + tx.gasUsed, 0n);
+                const iconsAfter = await registry.totalIcons();
+
+                console.log('\n=== Simulation Report (anvil) ===');
+                console.log(`Source: ${source}${config.forkUrl ? ` (${config.forkUrl})` : ''}`);
+                txs.forEach((tx, i) => {
+                    console.log(`  [${i + 1}] ${tx.hash} ${tx.status === 'success' ? '✓' : '✗ reverted'} ${tx.gasUsed.toLocaleString()} gas`);
+                });
+                console.log(`Transactions: ${txs.length} (${txs.filter(tx => tx.status !== 'success').length} reverted)`);
+                console.log(`Total gas used: ${totalGas.toLocaleString()}`);
+
+                console.log('\nPost-state:');
+                console.log(`  totalIcons: ${iconsBefore} → ${iconsAfter}`);
+                for (const [key, value] of Object.entries(postState)) {
+                    console.log(`  ${key}: ${typeof value === 'bigint' ? value.toString() : JSON.stringify(value)}`);
+                }
+
+                stop();
+            },
+
+            stop,
+        };
+
+        return sim;
+    } catch (err) {
+        stop();
+        throw err;
+    }
+}
@@ -0,0 +1,258 @@
+#!/usr/bin/env npx tsx
+/**
+ * Audit On-Chain Icons Against icons-64/
+ *
+ * Walks every slug in icons-64/ and docs/manifest.json and compares keccak256 of
+ * the local file with the bytes behind the on-chain pointer (batchGetIcons in
+ * chunks). Every on-chain slug hash is checked too, so icons that exist only
+ * on-chain are reported, named where slug-recovery.ts can find a name.
+ *
+ * Findings:
+ *   missing       Local or manifest slug with no icon on-chain
+ *   pending       Missing, but queued in pending-uploads.json (not counted as drift)
+ *   mismatched    On-chain bytes differ from the local file
+ *   extraOnChain  On-chain icon with no local file or manifest entry
+ *   corrupted     On-chain or local bytes that aren't a complete PNG
+ *
+ * Clean slugs (see migrate-clean-slugs.ts) of rsz-prefixed files are compared
+ * against the same file when they exist on-chain, but are not required.
+ *
+ * Usage:
+ *   npx tsx scripts/audit-icons.ts
+ *
+ * Exits 1 if anything other than pending uploads drifted.
+ *
+ * Environment:
+ *   RPC_URL - Ethereum RPC (default: https://eth.drpc.org)
+ *   REPORT_FILE - JSON report path (default: audit-report.json)
+ *   AUDIT_BATCH_SIZE - Slug hashes per batchGetIcons call (default: 50)
+ *   SKIP_INDEX - If "true", name extra on-chain icons without the event index (see slug-recovery.ts)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { hexToBytes } from 'viem';
+import { createIconRegistryClient, slugToHash } from './icon-registry-client';
+import { createRegistryIndex, registryIndexEnv, type RegistryIndex } from './registry-index';
+import { cleanSlug, contentHash, ICONS_DIR } from './registry-state';
+import { loadManifest } from './schemas';
+import { buildSlugDictionary } from './slug-recovery';
+
+const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+const REPORT_FILE = process.env.REPORT_FILE || 'audit-report.json';
+const AUDIT_BATCH_SIZE = parseInt(process.env.AUDIT_BATCH_SIZE || '50');
+const MANIFEST_FILE = path.join(__dirname, '..', 'docs', 'manifest.json');
+const PENDING_FILE = path.join(__dirname, '..', 'pending-uploads.json');
+
+const PNG_SIGNATURE = '89504e470d0a1a0a';
+const PNG_IEND = '0000000049454e44ae426082';
+
+interface ExpectedIcon {
+    slug: string;
+    slugHash: `0x${string}`;
+    /** Path relative to icons-64/, if there is a local file */
+    file?: string;
+    /** Clean alias of an rsz-prefixed file; only compared if it exists on-chain */
+    optional: boolean;
+}
+
+interface AuditReport {
+    contract: `0x${string}`;
+    blockNumber: string;
+    summary: {
+        checked: number;
+        ok: number;
+        missing: number;
+        pending: number;
+        mismatched: number;
+        extraOnChain: number;
+        corrupted: number;
+    };
+    missing: Array<{ slug: string; slugHash: string; file?: string }>;
+    pending: Array<{ slug: string; slugHash: string }>;
+    mismatched: Array<{ slug: string; slugHash: string; file: string; localHash: string; onChainHash: string }>;
+    extraOnChain: Array<{ slugHash: string; slug?: string; onChainHash: string; size: number }>;
+    corrupted: Array<{ slugHash: string; slug?: string; where: 'local' | 'on-chain'; problem: string }>;
+}
+
+/** Why the bytes are not a complete PNG, or undefined if they are */
+function pngProblem(hex: string): string | undefined {
+    if (!hex.startsWith(PNG_SIGNATURE)) return `bad signature ${hex.slice(0, 16) || '(empty)'}`;
+    if (hex.slice(24, 32) !== '49484452') return 'first chunk is not IHDR';
+    if (!hex.endsWith(PNG_IEND)) return 'truncated (no IEND chunk)';
+    return undefined;
+}
+
+function findAllPngs(dir: string): string[] {
+    const results: string[] = [];
+    if (!fs.existsSync(dir)) return results;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            results.push(...findAllPngs(fullPath));
+        } else if (entry.name.endsWith('.png')) {
+            results.push(fullPath);
+        }
+    }
+    return results;
+}
+
+function expectedIcons(): ExpectedIcon[] {
+    const bySlug = new Map<string, ExpectedIcon>();
+    const files = findAllPngs(ICONS_DIR)
+        .map(file => path.relative(ICONS_DIR, file).replace(/\\/g, '/'))
+        .sort();
+
+    for (const file of files) {
+        const slug = file.replace(/\.png$/, '');
+        bySlug.set(slug, { slug, slugHash: slugToHash(slug), file, optional: false });
+    }
+    for (const file of files) {
+        const clean = cleanSlug(file.replace(/\.png$/, ''));
+        if (!bySlug.has(clean)) bySlug.set(clean, { slug: clean, slugHash: slugToHash(clean), file, optional: true });
+    }
+
+    if (fs.existsSync(MANIFEST_FILE)) {
+        for (const { slug } of loadManifest(MANIFEST_FILE).icons) {
+            if (!bySlug.has(slug)) bySlug.set(slug, { slug, slugHash: slugToHash(slug), optional: false });
+        }
+    }
+
+    return [...bySlug.values()].sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+function loadPendingSlugs(): Set<string> {
+    if (!fs.existsSync(PENDING_FILE)) return new Set();
+    return new Set((JSON.parse(fs.readFileSync(PENDING_FILE, 'utf-8')) as Array<{ slug: string }>).map(p => p.slug));
+}
+
+async function main() {
+    console.log('=== IconRegistry Audit ===\n');
+
+    const registry = createIconRegistryClient({ rpcUrl: RPC_URL });
+    const blockNumber = await registry.publicClient.getBlockNumber();
+    console.log(`Contract: ${registry.address}`);
+    console.log(`Block: ${blockNumber}`);
+
+    const expected = expectedIcons();
+    const pendingSlugs = loadPendingSlugs();
+    console.log(`Expected: ${expected.length} slugs (icons-64/, clean aliases, manifest)`);
+
+    const onChain = await registry.getAllSlugHashes();
+    console.log(`On-chain: ${onChain.size} slug hashes\n`);
+
+    const report: AuditReport = {
+        contract: registry.address,
+        blockNumber: blockNumber.toString(),
+        summary: { checked: 0, ok: 0, missing: 0, pending: 0, mismatched: 0, extraOnChain: 0, corrupted: 0 },
+        missing: [],
+        pending: [],
+        mismatched: [],
+        extraOnChain: [],
+        corrupted: [],
+    };
+
+    const toCompare: ExpectedIcon[] = [];
+    for (const icon of expected) {
+        if (onChain.has(icon.slugHash)) {
+            toCompare.push(icon);
+        } else if (icon.optional) {
+            continue;
+        } else if (pendingSlugs.has(icon.slug)) {
+            report.pending.push({ slug: icon.slug, slugHash: icon.slugHash });
+        } else {
+            report.missing.push({ slug: icon.slug, slugHash: icon.slugHash, file: icon.file });
+        }
+    }
+
+    const expectedHashes = new Set(expected.map(icon => icon.slugHash as string));
+    const extraHashes = [...onChain].filter(hash => !expectedHashes.has(hash)).sort() as `0x${string}`[];
+
+    // Name extra on-chain icons before fetching their bytes
+    let index: RegistryIndex | undefined;
+    if (extraHashes.length > 0 && process.env.SKIP_INDEX !== 'true') {
+        index = createRegistryIndex({ ...registryIndexEnv(), publicClient: registry.publicClient });
+        await index.sync();
+    }
+    const dictionary = extraHashes.length > 0 ? buildSlugDictionary({ index }) : undefined;
+    index?.close();
+
+    const checks: Array<{ slugHash: `0x${string}`; icon?: ExpectedIcon }> = [
+        ...toCompare.map(icon => ({ slugHash: icon.slugHash, icon })),
+        ...extraHashes.map(slugHash => ({ slugHash })),
+    ];
+
+    for (let i = 0; i < checks.length; i += AUDIT_BATCH_SIZE) {
+        const batch = checks.slice(i, i + AUDIT_BATCH_SIZE);
+        const datas = await registry.batchGetIcons(batch.map(c => c.slugHash));
+
+        for (const [j, { slugHash, icon }] of batch.entries()) {
+            report.summary.checked++;
+            const onChainHex = datas[j].slice(2).toLowerCase();
+            const onChainHash = contentHash(hexToBytes(datas[j]));
+            const slug = icon?.slug ?? dictionary?.lookup(slugHash)?.slug;
+
+            const onChainProblem = pngProblem(onChainHex);
+            if (onChainProblem) {
+                report.corrupted.push({ slugHash, slug, where: 'on-chain', problem: onChainProblem });
+            }
+
+            if (!icon) {
+                report.extraOnChain.push({ slugHash, slug, onChainHash, size: onChainHex.length / 2 });
+                continue;
+            }
+            if (!icon.file) {
+                // Manifest-only slug: nothing local to compare against
+                if (!onChainProblem) report.summary.ok++;
+                continue;
+            }
+
+            const local = fs.readFileSync(path.join(ICONS_DIR, icon.file));
+            const localProblem = pngProblem(local.toString('hex'));
+            if (localProblem) {
+                report.corrupted.push({ slugHash, slug, where: 'local', problem: `${icon.file}: ${localProblem}` });
+            }
+
+            const localHash = contentHash(local);
+            if (localHash !== onChainHash) {
+                report.mismatched.push({ slug: icon.slug, slugHash, file: icon.file, localHash, onChainHash });
+            } else if (!onChainProblem && !localProblem) {
+                report.summary.ok++;
+            }
+        }
+
+        if ((i / AUDIT_BATCH_SIZE) % 20 === 19) {
+            console.log(`  Checked ${Math.min(i + AUDIT_BATCH_SIZE, checks.length)}/${checks.length}`);
+        }
+    }
+
+    report.summary.missing = report.missing.length;
+    report.summary.pending = report.pending.length;
+    report.summary.mismatched = report.mismatched.length;
+    report.summary.extraOnChain = report.extraOnChain.length;
+    report.summary.corrupted = report.corrupted.length;
+
+    fs.writeFileSync(REPORT_FILE, JSON.stringify(report, null, 2) + '\n');
+
+    const { summary } = report;
+    console.log('\n=== Audit Summary ===');
+    console.log(`Checked: ${summary.checked}, OK: ${summary.ok}`);
+    console.log(`Missing: ${summary.missing} (+${summary.pending} pending upload)`);
+    console.log(`Mismatched: ${summary.mismatched}`);
+    console.log(`Extra on-chain: ${summary.extraOnChain} (${report.extraOnChain.filter(e => !e.slug).length} unnamed)`);
+    console.log(`Corrupted: ${summary.corrupted}`);
+    console.log(`Report: ${REPORT_FILE}`);
+
+    const drift = summary.missing + summary.mismatched + summary.extraOnChain + summary.corrupted;
+    if (drift > 0) {
+        console.error(`\n[FAIL] ${drift} icons drifted between icons-64/ and the registry`);
+        process.exit(1);
+    }
+    console.log('\n[OK] Registry matches icons-64/');
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
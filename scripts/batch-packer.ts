@@ -0,0 +1,182 @@
+/**
+ * setIconsBatch Packer
+ *
+ * Packs icons into setIconsBatch transactions by estimated gas and calldata
+ * size instead of a fixed icon count, so small icons share a transaction and
+ * large ones don't push a batch past the gas limit.
+ *
+ * Gas model per icon (SSTORE2.write + registry bookkeeping):
+ *   - 200 gas/byte code deposit for the SSTORE2 pointer contract
+ *   - 16 gas/byte calldata (PNG bytes are almost all non-zero)
+ *   - ~140k fixed: CREATE, icons/iconVersions/slugs/slugIndex slots, event
+ *
+ * The model only drives packing; each packed batch is still checked with
+ * estimateGas and split in half until every part estimates under the ceiling.
+ *
+ * Usage:
+ *   const batches = packIconBatches(items, item => item.icon, batchPackerEnv());
+ *   const { batches: ready, rejected } = await splitUntilEstimable(batch, estimate, config);
+ *
+ * Environment (read by the scripts that use it):
+ *   GAS_CEILING        - Max gas per transaction (default: 15,000,000)
+ *   MAX_CALLDATA_BYTES - Max calldata per transaction (default: 120,000)
+ */
+
+import { encodeFunctionData } from 'viem';
+import { ICON_REGISTRY_ABI } from './icon-registry-abi';
+
+export const SSTORE2_GAS_PER_BYTE = 200n;
+export const CALLDATA_GAS_PER_BYTE = 16n;
+export const PER_ICON_OVERHEAD_GAS = 140_000n;
+export const TX_BASE_GAS = 21_000n;
+
+/** Stays under the EIP-7825 per-transaction cap (2^24) with room for estimate drift */
+export const DEFAULT_GAS_CEILING = 15_000_000n;
+/** Nodes drop transactions over 128 KB from the mempool */
+export const DEFAULT_MAX_CALLDATA_BYTES = 120_000;
+
+export interface IconUpload {
+    slug: string;
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+export interface BatchPackerConfig {
+    gasCeiling?: bigint;
+    maxCalldataBytes?: number;
+}
+
+export interface EstimatedBatch<T> {
+    items: T[];
+    gas: bigint;
+}
+
+export interface RejectedItem<T> {
+    item: T;
+    error: unknown;
+}
+
+/** Read the packer options the scripts share from the environment */
+export function batchPackerEnv(): BatchPackerConfig {
+    return {
+        gasCeiling: process.env.GAS_CEILING ? BigInt(process.env.GAS_CEILING) : undefined,
+        maxCalldataBytes: process.env.MAX_CALLDATA_BYTES ? parseInt(process.env.MAX_CALLDATA_BYTES) : undefined,
+    };
+}
+
+const ceil32 = (n: number) => Math.ceil(n / 32) * 32;
+
+/** ABI-encoded size of one icon's share of setIconsBatch calldata */
+export function iconCalldataBytes(icon: IconUpload): number {
+    // Offsets and lengths for slug and data, plus width and height words
+    return ceil32(icon.data.length) + ceil32(Buffer.byteLength(icon.slug)) + 6 * 32;
+}
+
+export function estimateIconGas(icon: IconUpload): bigint {
+    const bytes = BigInt(icon.data.length);
+    return bytes * SSTORE2_GAS_PER_BYTE
+        + BigInt(iconCalldataBytes(icon)) * CALLDATA_GAS_PER_BYTE
+        + PER_ICON_OVERHEAD_GAS;
+}
+
+export function estimateBatchGas(icons: IconUpload[]): bigint {
+    return icons.reduce((sum, icon) => sum + estimateIconGas(icon), TX_BASE_GAS);
+}
+
+export function encodeIconBatch(icons: IconUpload[]): `0x${string}` {
+    return encodeFunctionData({
+        abi: ICON_REGISTRY_ABI,
+        functionName: 'setIconsBatch',
+        args: [
+            icons.map(i => i.slug),
+            icons.map(i => `0x${Buffer.from(i.data).toString('hex')}` as `0x${string}`),
+            icons.map(i => i.width),
+            icons.map(i => i.height),
+        ],
+    });
+}
+
+/**
+ * Greedily pack items, in order, into batches whose modelled gas and calldata
+ * stay under the limits. An icon that exceeds a limit on its own gets its own
+ * batch so the estimateGas check can reject it with a real error.
+ */
+export function packIconBatches<T>(items: T[], toIcon: (item: T) => IconUpload, config: BatchPackerConfig = {}): T[][] {
+    const gasCeiling = config.gasCeiling ?? DEFAULT_GAS_CEILING;
+    const maxCalldataBytes = config.maxCalldataBytes ?? DEFAULT_MAX_CALLDATA_BYTES;
+
+    const batches: T[][] = [];
+    let current: T[] = [];
+    let gas = TX_BASE_GAS;
+    let calldata = 4;
+
+    for (const item of items) {
+        const icon = toIcon(item);
+        const iconGas = estimateIconGas(icon);
+        const iconBytes = iconCalldataBytes(icon);
+
+        if (current.length > 0 && (gas + iconGas > gasCeiling || calldata + iconBytes > maxCalldataBytes)) {
+            batches.push(current);
+            current = [];
+            gas = TX_BASE_GAS;
+            calldata = 4;
+        }
+        current.push(item);
+        gas += iconGas;
+        calldata += iconBytes;
+    }
+    if (current.length > 0) batches.push(current);
+
+    return batches;
+}
+
+/**
+ * Run estimateGas on a batch and halve it until every part estimates under the
+ * gas ceiling. Single items that still fail are returned as rejected with the
+ * estimation error (e.g. an InvalidPNG revert) instead of failing the batch.
+ */
+export async function splitUntilEstimable<T>(
+    items: T[],
+    estimate: (items: T[]) => Promise<bigint>,
+    config: BatchPackerConfig = {},
+    onSplit?: (size: number, reason: string) => void
+): Promise<{ batches: EstimatedBatch<T>[]; rejected: RejectedItem<T>[] }> {
+    const gasCeiling = config.gasCeiling ?? DEFAULT_GAS_CEILING;
+    const batches: EstimatedBatch<T>[] = [];
+    const rejected: RejectedItem<T>[] = [];
+
+    const visit = async (part: T[]): Promise<void> => {
+        let gas: bigint;
+        try {
+            gas = await estimate(part);
+        } catch (err) {
+            if (part.length === 1) {
+                rejected.push({ item: part[0], error: err });
+                return;
+            }
+            onSplit?.(part.length, 'estimateGas failed');
+            const mid = Math.ceil(part.length / 2);
+            await visit(part.slice(0, mid));
+            await visit(part.slice(mid));
+            return;
+        }
+
+        if (gas > gasCeiling && part.length > 1) {
+            onSplit?.(part.length, `estimate ${gas.toLocaleString()} over ceiling ${gasCeiling.toLocaleString()}`);
+            const mid = Math.ceil(part.length / 2);
+            await visit(part.slice(0, mid));
+            await visit(part.slice(mid));
+            return;
+        }
+        if (gas > gasCeiling) {
+            rejected.push({ item: part[0], error: new Error(`Estimated ${gas} gas exceeds ceiling ${gasCeiling}`) });
+            return;
+        }
+
+        batches.push({ items: part, gas });
+    };
+
+    await visit(items);
+    return { batches, rejected };
+}
@@ -0,0 +1,122 @@
+/**
+ * Chain Mappings
+ *
+ * Typed loader for docs/chain-mappings.json, the single list of chain ID → icon
+ * slug mappings used by every chain-mapping script. Adding a chain is a one-entry
+ * change to that file:
+ *
+ *   { "chainId": 8453, "name": "Base", "slug": "chains/base", "testnet": false }
+ *   { "chainId": 84532, "name": "Base Sepolia", "slug": "chains/base", "testnet": true, "parent": 8453 }
+ *
+ * The file is validated on load, first against its JSON Schema in docs/schemas/
+ * (see schemas.ts), then for what the schema can't express: duplicate chain IDs,
+ * testnets whose parent is missing, and slugs with no icon in icons-64/ (either
+ * the file itself or the clean slug of an rsz-prefixed file, see
+ * migrate-clean-slugs.ts). Problems fail with a ChainMappingsError listing every
+ * one.
+ *
+ * Usage:
+ *   import { loadChainMappings } from './chain-mappings';
+ *   const mappings = loadChainMappings();
+ *
+ *   npx tsx scripts/chain-mappings.ts    # Validate the file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ICONS_DIR, localIconSlugs } from './registry-state';
+import { validateArtifact } from './schemas';
+import type { ChainMapping, ChainMappingsFile } from './schema-types';
+
+export type { ChainMapping, ChainMappingsFile } from './schema-types';
+
+export const CHAIN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'chain-mappings.json');
+
+export interface LoadChainMappingsOptions {
+    file?: string;
+    /** Check that every slug has an icon in icons-64/ (default: true) */
+    checkIcons?: boolean;
+}
+
+export class ChainMappingsError extends Error {
+    constructor(public readonly file: string, public readonly problems: string[]) {
+        super(`${file} is invalid:\n  ${problems.join('\n  ')}`);
+        this.name = 'ChainMappingsError';
+    }
+}
+
+/** Local chain icons by slug, including clean aliases; values are the path slugs */
+export function localChainIcons(iconsDir: string = ICONS_DIR): Map<string, string> {
+    return localIconSlugs('chains', iconsDir);
+}
+
+/** Problems with a list of mappings; empty if it is valid */
+export function validateChainMappings(mappings: unknown, localIcons?: Map<string, string>): string[] {
+    if (!Array.isArray(mappings)) return ['"mappings" is not an array'];
+
+    const problems: string[] = [];
+    const byChainId = new Map<number, ChainMapping>();
+
+    for (const [i, m] of mappings.entries()) {
+        const at = `mappings[${i}]${typeof m?.chainId === 'number' ? ` (chain ${m.chainId})` : ''}`;
+        if (!Number.isSafeInteger(m?.chainId) || m.chainId <= 0) {
+            problems.push(`${at}: chainId must be a positive integer`);
+            continue;
+        }
+        if (typeof m.name !== 'string' || m.name.trim() === '') problems.push(`${at}: missing name`);
+        if (typeof m.slug !== 'string' || !/^chains\/[a-z0-9-]+$/.test(m.slug)) {
+            problems.push(`${at}: slug ${JSON.stringify(m.slug)} is not a chains/<name> slug`);
+        } else if (localIcons && !localIcons.has(m.slug)) {
+            problems.push(`${at}: no icon for ${m.slug} in icons-64/`);
+        }
+        if (typeof m.testnet !== 'boolean') problems.push(`${at}: testnet must be true or false`);
+        if (m.parent !== undefined && !m.testnet) problems.push(`${at}: only testnets have a parent`);
+
+        if (byChainId.has(m.chainId)) {
+            problems.push(`${at}: duplicate chainId (also ${byChainId.get(m.chainId)!.name})`);
+        } else {
+            byChainId.set(m.chainId, m);
+        }
+    }
+
+    for (const m of byChainId.values()) {
+        if (m.parent === undefined) continue;
+        const parent = byChainId.get(m.parent);
+        if (!parent) {
+            problems.push(`chain ${m.chainId}: parent ${m.parent} is not mapped`);
+        } else if (parent.testnet) {
+            problems.push(`chain ${m.chainId}: parent ${m.parent} is itself a testnet`);
+        }
+    }
+
+    return problems;
+}
+
+export function loadChainMappingsFile(options: LoadChainMappingsOptions = {}): ChainMappingsFile {
+    const file = options.file ?? CHAIN_MAPPINGS_FILE;
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const schemaProblems = validateArtifact('chain-mappings', data);
+    if (schemaProblems.length > 0) throw new ChainMappingsError(file, schemaProblems);
+
+    const localIcons = options.checkIcons === false ? undefined : localChainIcons();
+    const problems = validateChainMappings(data.mappings, localIcons);
+    if (problems.length > 0) throw new ChainMappingsError(file, problems);
+    return data as ChainMappingsFile;
+}
+
+/** Load and validate the chain mappings, ordered by chain ID */
+export function loadChainMappings(options: LoadChainMappingsOptions = {}): ChainMapping[] {
+    return [...loadChainMappingsFile(options).mappings].sort((a, b) => a.chainId - b.chainId);
+}
+
+// CLI usage
+if (require.main === module) {
+    try {
+        const mappings = loadChainMappings();
+        const testnets = mappings.filter(m => m.testnet).length;
+        console.log(`${CHAIN_MAPPINGS_FILE}: ${mappings.length} chain mappings (${testnets} testnets) OK`);
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : err);
+        process.exit(1);
+    }
+}
@@ -9,66 +9,51 @@
  *   TURNKEY_API_PUBLIC_KEY=... TURNKEY_API_PRIVATE_KEY=... TURNKEY_ORGANIZATION_ID=... TURNKEY_SIGN_WITH=... tsx scripts/deploy-icons-turnkey.ts
  * 
  *   # With options
- *   BATCH_SIZE=10 MAX_GAS_PRICE_GWEI=0.05 tsx scripts/deploy-icons-turnkey.ts
+ *   GAS_CEILING=10000000 MAX_GAS_PRICE_GWEI=0.05 MAX_SPEND_ETH=0.1 tsx scripts/deploy-icons-turnkey.ts
+ *
+ * Transactions go through tx-manager.ts: the nonce is tracked locally, fees are
+ * EIP-1559 under MAX_GAS_PRICE_GWEI (tip: PRIORITY_FEE_GWEI), stuck transactions
+ * are replaced with bumped fees, and the run stops at the MAX_SPEND_ETH cap.
+ *
+ * Batches are packed by estimated gas (GAS_CEILING) and calldata size
+ * (MAX_CALLDATA_BYTES) rather than a fixed icon count.
+ *
+ * Re-running resumes from journals/deploy-icons.json (override with JOURNAL_FILE).
+ *
+ * SIMULATE=anvil runs the same uploads on a local anvil node as the impersonated
+ * owner and reports exact gas (see anvil-simulation.ts); no report file is written.
+ *
+ * SIGNER selects the signing backend (turnkey by default; see signer.ts). With
+ * SIGNER=unsigned or SIGNER=safe the batches are exported instead of sent and the journal is not advanced.
  */
 
-import { createTurnkeySigner } from './turnkey-signer';
-import { createPublicClient, http, encodeFunctionData, parseGwei, formatGwei } from 'viem';
+import { createSigner, describeSigner } from './signer';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { openJournal, describeReconcile } from './deploy-journal';
+import {
+    batchPackerEnv,
+    DEFAULT_GAS_CEILING,
+    encodeIconBatch,
+    packIconBatches,
+    splitUntilEstimable,
+    type IconUpload,
+} from './batch-packer';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { slugToHash } from './icon-registry-client';
+import { toRegistryError } from './registry-errors';
+import { createTxManager, SpendCapExceededError, StuckTransactionError, txManagerEnv } from './tx-manager';
+import { createPublicClient, http, formatEther, formatGwei, type PublicClient } from 'viem';
 import { mainnet } from 'viem/chains';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // ========== CONFIG ==========
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
 const MAX_GAS_PRICE_GWEI = parseFloat(process.env.MAX_GAS_PRICE_GWEI || '0.05');
-const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '5');
 const SKIP_EXISTING = process.env.SKIP_EXISTING !== 'false';
-const RESUME_FROM = parseInt(process.env.RESUME_FROM || '0');
 const OUTPUT_FILE = path.join(__dirname, '..', 'docs', 'mainnet-deployment-report.md');
 const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
 
-// Contract ABI (only what we need)
-const ICON_REGISTRY_ABI = [
-    {
-        name: 'setIconsBatch',
-        type: 'function',
-        inputs: [
-            { name: 'slugs', type: 'string[]' },
-            { name: 'datas', type: 'bytes[]' },
-            { name: 'widths', type: 'uint32[]' },
-            { name: 'heights', type: 'uint32[]' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'totalIcons',
-        type: 'function',
-        inputs: [],
-        outputs: [{ type: 'uint256' }],
-    },
-    {
-        name: 'getSlugsPaginated',
-        type: 'function',
-        inputs: [
-            { name: 'offset', type: 'uint256' },
-            { name: 'limit', type: 'uint256' },
-        ],
-        outputs: [{ type: 'bytes32[]' }],
-    },
-    {
-        name: 'icons',
-        type: 'function',
-        inputs: [{ name: 'slugHash', type: 'bytes32' }],
-        outputs: [
-            { name: 'pointer', type: 'address' },
-            { name: 'size', type: 'uint32' },
-            { name: 'width', type: 'uint32' },
-            { name: 'height', type: 'uint32' },
-        ],
-    },
-] as const;
-
 // ========== HELPERS ==========
 function findAllPngs(dir: string): string[] {
     const results: string[] = [];
@@ -84,40 +69,57 @@ function pathToSlug(filePath: string): string {
     return path.relative(ICONS_DIR, filePath).replace(/\.png$/, '').replace(/\\/g, '/');
 }
 
-function slugToHash(slug: string): `0x${string}` {
-    const { keccak256, toHex } = require('viem');
-    return keccak256(toHex(slug));
-}
-
 async function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 // ========== MAIN ==========
 async function main() {
-    console.log('=== IconRegistry Deployment with Turnkey ===\n');
+    console.log('=== IconRegistry Deployment ===\n');
     console.log(`Proxy: ${PROXY_ADDRESS}`);
     console.log(`Max gas price: ${MAX_GAS_PRICE_GWEI} gwei`);
-    console.log(`Batch size: ${BATCH_SIZE}`);
+    console.log(`Gas ceiling: ${(batchPackerEnv().gasCeiling ?? DEFAULT_GAS_CEILING).toLocaleString()} per tx`);
     console.log(`RPC: ${RPC_URL}`);
-    if (RESUME_FROM > 0) console.log(`Resuming from batch: ${RESUME_FROM}`);
     console.log('');
 
-    // Initialize Turnkey signer
-    console.log('Initializing Turnkey signer...');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer address: ${address}\n`);
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+
+    // Initialize the configured signer (or the impersonated owner when simulating)
+    console.log(sim ? 'Using impersonated owner...' : 'Initializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}\n`);
 
     // Create public client for reads
-    const publicClient = createPublicClient({
+    const publicClient = sim?.publicClient ?? createPublicClient({
         chain: mainnet,
         transport: http(RPC_URL),
     });
 
+    const txManager = createTxManager({
+        publicClient: publicClient as PublicClient,
+        walletClient,
+        ...txManagerEnv(),
+        maxFeePerGasGwei: MAX_GAS_PRICE_GWEI,
+        exportOnly: signer.exportOnly,
+    });
+
+    // Reconcile batches left over from a previous run
+    const journal = openJournal('deploy-icons', sim?.journalFile('deploy-icons'));
+    console.log(`Journal: ${journal.file}`);
+    const reconciled = await journal.reconcile(publicClient);
+    console.log(`Journal reconciled: ${describeReconcile(reconciled)}\n`);
+
     // Find all icons
     let pngs = findAllPngs(ICONS_DIR);
     console.log(`Found ${pngs.length.toLocaleString()} total icons`);
 
+    const journaled = pngs.length;
+    pngs = journal.remaining(pngs, pathToSlug);
+    if (journaled !== pngs.length) {
+        console.log(`Skipping ${journaled - pngs.length} icons already confirmed or in flight per journal`);
+    }
+
     // Filter out already uploaded icons
     if (SKIP_EXISTING) {
         console.log('Fetching already uploaded icons...');
@@ -153,11 +155,19 @@ async function main() {
 
     if (pngs.length === 0) {
         console.log('All icons already uploaded!');
+        await sim?.finish();
         return;
     }
 
-    const totalBatches = Math.ceil(pngs.length / BATCH_SIZE);
-    console.log(`Total batches: ${totalBatches}\n`);
+    const packerConfig = batchPackerEnv();
+    const toUpload = (png: string): IconUpload => ({
+        slug: pathToSlug(png),
+        data: fs.readFileSync(png),
+        width: 64,
+        height: 64,
+    });
+    const packed = packIconBatches(pngs, toUpload, packerConfig);
+    console.log(`Total batches: ${packed.length}\n`);
 
     const reportData = {
         startTime: Date.now(),
@@ -174,128 +184,124 @@ async function main() {
         totalGasUsed: 0n,
     };
 
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-        if (batchNum < RESUME_FROM) continue;
-
-        const startIdx = batchNum * BATCH_SIZE;
-        const batch = pngs.slice(startIdx, startIdx + BATCH_SIZE);
-
-        console.log(`\nPreparing batch ${batchNum + 1}/${totalBatches}...`);
-
-        const slugs: string[] = [];
-        const hexDatas: `0x${string}`[] = [];
-        const widths: number[] = [];
-        const heights: number[] = [];
-        let batchBytes = 0;
-
-        for (const png of batch) {
-            const data = fs.readFileSync(png);
-            slugs.push(pathToSlug(png));
-            hexDatas.push(`0x${data.toString('hex')}`);
-            widths.push(64);
-            heights.push(64);
-            batchBytes += data.length;
-        }
-
-        console.log(`Batch ready: ${batch.length} icons, ${(batchBytes / 1024).toFixed(1)} KB`);
-
-        // Wait for acceptable gas price
-        let gasPrice: bigint;
-        const maxGasWei = parseGwei(MAX_GAS_PRICE_GWEI.toString());
-        
-        while (true) {
-            gasPrice = await publicClient.getGasPrice();
-            if (gasPrice <= maxGasWei) break;
-            process.stdout.write(`\rGas: ${formatGwei(gasPrice)} gwei > ${MAX_GAS_PRICE_GWEI} gwei - waiting...    `);
-            await sleep(6000);
-        }
-        console.log(`Gas price OK: ${formatGwei(gasPrice)} gwei`);
-
-        // Add buffer to gas price
-        const bufferedGasPrice = gasPrice + (gasPrice * 20n / 100n);
-
-        try {
-            // Encode function call
-            const data = encodeFunctionData({
-                abi: ICON_REGISTRY_ABI,
-                functionName: 'setIconsBatch',
-                args: [slugs, hexDatas, widths, heights],
-            });
+    let stopped = false;
+    for (let batchNum = 0; batchNum < packed.length && !stopped; batchNum++) {
+        console.log(`\nPreparing batch ${batchNum + 1}/${packed.length}...`);
 
-            // Estimate gas
-            const gasEstimate = await publicClient.estimateGas({
+        // Split batches that fail estimation or come in over the gas ceiling
+        const { batches, rejected } = await splitUntilEstimable(
+            packed[batchNum],
+            batch => publicClient.estimateGas({
                 account: address,
                 to: PROXY_ADDRESS,
-                data,
-            });
-
-            // Get nonce
-            const nonce = await publicClient.getTransactionCount({ address });
-
-            // Send transaction via Turnkey
-            const txHash = await walletClient.sendTransaction({
-                to: PROXY_ADDRESS,
-                data,
-                gas: gasEstimate + (gasEstimate * 10n / 100n), // 10% buffer
-                gasPrice: bufferedGasPrice,
-                nonce,
-            });
-
-            console.log(`Tx sent: ${txHash}`);
-
-            // Wait for receipt
-            const receipt = await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                timeout: 180_000,
-            });
-
-            const gasUsed = receipt.gasUsed;
-            reportData.totalGasUsed += gasUsed;
-            reportData.successCount += batch.length;
-
-            reportData.batches.push({
-                index: batchNum + 1,
-                iconCount: batch.length,
-                gasUsed,
-                txHash,
-                success: true,
-            });
-
-            const progress = ((startIdx + batch.length) / pngs.length * 100).toFixed(1);
-            console.log(`[${progress}%] Batch ${batchNum + 1}/${totalBatches}: ${batch.length} icons, ${gasUsed.toLocaleString()} gas`);
-
-        } catch (err: any) {
-            console.error(`\nBatch ${batchNum + 1} failed: ${err.message?.slice(0, 100)}`);
-            
-            reportData.failCount += batch.length;
-            reportData.batches.push({
-                index: batchNum + 1,
-                iconCount: batch.length,
-                success: false,
-            });
+                data: encodeIconBatch(batch.map(toUpload)),
+            }),
+            packerConfig,
+            (size, reason) => console.log(`Splitting ${size} icons (${reason})`)
+        );
+        for (const { item, error } of rejected) {
+            console.error(`${pathToSlug(item)} rejected: ${String(toRegistryError(error)).slice(0, 100)}`);
+            reportData.failCount++;
+        }
 
-            if (batchNum === RESUME_FROM) {
-                console.error('First batch failed. Check your Turnkey configuration.');
-                process.exit(1);
+        for (const { items: batch, gas: gasEstimate } of batches) {
+            const uploads = batch.map(toUpload);
+            const batchBytes = uploads.reduce((sum, u) => sum + u.data.length, 0);
+            console.log(`Batch ready: ${batch.length} icons, ${(batchBytes / 1024).toFixed(1)} KB, ~${gasEstimate.toLocaleString()} gas`);
+
+            const entry = journal.plan(uploads.map(u => u.slug));
+
+            const gasPrice = await txManager.waitForGas();
+            console.log(`Gas price OK: ${formatGwei(gasPrice)} gwei`);
+
+            try {
+                // Local nonce, EIP-1559 fees; stuck transactions are replaced with bumped fees
+                const { hash: txHash, receipt } = await txManager.send(
+                    { to: PROXY_ADDRESS, data: encodeIconBatch(uploads), gas: gasEstimate + (gasEstimate * 10n / 100n) },
+                    {
+                        onBroadcast: ({ hash, nonce, from, replacement }) => {
+                            // Exported, not broadcast: the entry stays planned and is discarded on the next run
+                            if (signer.exportOnly) return;
+                            journal.markSent(entry, { hash, from, nonce });
+                            console.log(`Tx ${replacement ? 'replaced' : 'sent'}: ${hash}`);
+                        },
+                    }
+                );
+
+                if (!receipt) {
+                    reportData.successCount += batch.length;
+                    console.log(`Batch ${batchNum + 1}/${packed.length}: ${batch.length} icons exported as ${txHash}`);
+                    continue;
+                }
+
+                journal.markConfirmed(entry, receipt);
+                if (receipt.status !== 'success') {
+                    throw new Error(`Transaction reverted: ${txHash}`);
+                }
+
+                const gasUsed = receipt.gasUsed;
+                reportData.totalGasUsed += gasUsed;
+                reportData.successCount += batch.length;
+
+                reportData.batches.push({
+                    index: reportData.batches.length + 1,
+                    iconCount: batch.length,
+                    gasUsed,
+                    txHash,
+                    success: true,
+                });
+
+                const progress = ((reportData.successCount + reportData.failCount) / pngs.length * 100).toFixed(1);
+                console.log(`[${progress}%] Batch ${batchNum + 1}/${packed.length}: ${batch.length} icons, ${gasUsed.toLocaleString()} gas`);
+
+            } catch (err: any) {
+                console.error(`\nBatch ${batchNum + 1} failed: ${err.message?.slice(0, 100)}`);
+                // A receipt timeout leaves the batch 'sent' so the next run reconciles it
+                if (entry.state === 'planned') journal.markFailed(entry, err.message ?? String(err));
+                
+                reportData.failCount += batch.length;
+                reportData.batches.push({
+                    index: reportData.batches.length + 1,
+                    iconCount: batch.length,
+                    success: false,
+                });
+
+                if (reportData.batches.length === 1) {
+                    console.error('First batch failed. Check your signer configuration.');
+                    process.exit(1);
+                }
+                if (err instanceof SpendCapExceededError || err instanceof StuckTransactionError) {
+                    stopped = true;
+                    break;
+                }
+
+                console.log('Re-run to retry; the journal skips batches that already landed.\n');
             }
 
-            console.log(`Resume with: RESUME_FROM=${batchNum} tsx scripts/deploy-icons-turnkey.ts\n`);
+            await sleep(500);
         }
-
-        await sleep(500);
     }
 
     // Summary
     const duration = ((Date.now() - reportData.startTime) / 1000 / 60).toFixed(1);
-    const ethCost = Number(reportData.totalGasUsed) * MAX_GAS_PRICE_GWEI / 1e9;
 
     console.log('\n=== DEPLOYMENT COMPLETE ===');
     console.log(`Icons: ${reportData.successCount}/${pngs.length}`);
     console.log(`Failed: ${reportData.failCount}`);
     console.log(`Gas used: ${Number(reportData.totalGasUsed).toLocaleString()}`);
-    console.log(`Est. cost: ${ethCost.toFixed(6)} ETH`);
+    console.log(`Total spent: ${formatEther(txManager.spent)} ETH`);
     console.log(`Duration: ${duration} minutes`);
 
+    if (sim) {
+        await sim.finish({ 'Icons uploaded': `${reportData.successCount}/${pngs.length}` });
+        return;
+    }
+
+    if (signer.exportOnly) {
+        console.log(`\nTransactions exported to ${signer.exportFile}`);
+        return;
+    }
+
     // Save report
     const report = `# IconRegistry Mainnet Deployment Report
 
@@ -307,7 +313,7 @@ Generated: ${new Date().toISOString()}
 |--------|-------|
 | Network | Ethereum Mainnet |
 | Proxy | \`${PROXY_ADDRESS}\` |
-| Signer | \`${address}\` (Turnkey) |
+| Signer | \`${address}\` (${signer.backend}) |
 | Total Icons | ${pngs.length.toLocaleString()} |
 | Deployed | ${reportData.successCount.toLocaleString()} |
 | Failed | ${reportData.failCount.toLocaleString()} |
@@ -0,0 +1,236 @@
+/**
+ * Deployment Journal
+ *
+ * Persistent record of every batch an upload script plans and sends: its
+ * contents, tx hash, nonce and receipt status. A restarted run reconciles the
+ * journal against the chain and only re-plans items that never landed, so
+ * resuming no longer depends on batch indexes staying stable between runs.
+ *
+ * Batch lifecycle:
+ *   planned   -> written before sending; discarded on restart if never sent
+ *   sent      -> tx broadcast, receipt not yet seen (items are in flight); a
+ *                replacement for the same nonce adds its hash to `txHashes`
+ *   confirmed -> receipt with status success (items are done)
+ *   failed    -> send error, reverted receipt, or nonce consumed by another tx
+ *
+ * Usage:
+ *   const journal = openJournal('deploy-icons');
+ *   await journal.reconcile(publicClient);
+ *   const todo = journal.remaining(items, item => item.slug);
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PublicClient } from 'viem';
+
+export const JOURNALS_DIR = path.join(__dirname, '..', 'journals');
+
+export type BatchState = 'planned' | 'sent' | 'confirmed' | 'failed';
+
+export interface JournalBatch {
+    id: number;
+    items: string[];
+    state: BatchState;
+    from?: `0x${string}`;
+    nonce?: number;
+    /** The latest hash broadcast, or the one that landed once confirmed */
+    txHash?: `0x${string}`;
+    /** Every hash broadcast for `nonce`, oldest first; any of them may be the one that lands */
+    txHashes?: `0x${string}`[];
+    receiptStatus?: 'success' | 'reverted';
+    blockNumber?: string;
+    gasUsed?: string;
+    error?: string;
+    plannedAt: string;
+    updatedAt: string;
+}
+
+export interface JournalData {
+    version: 1;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    batches: JournalBatch[];
+}
+
+export interface ReconcileResult {
+    confirmed: number;
+    failed: number;
+    pending: number;
+    discarded: number;
+}
+
+export interface DeployJournal {
+    file: string;
+    data: JournalData;
+
+    /** Items whose batch has a successful receipt */
+    completedItems(): Set<string>;
+    /** Items whose batch was sent but has no receipt yet */
+    inFlightItems(): Set<string>;
+    /** Filter out items that are completed or still in flight */
+    remaining<T>(items: T[], key: (item: T) => string): T[];
+
+    plan(items: string[]): JournalBatch;
+    markSent(batch: JournalBatch, tx: { hash: `0x${string}`; from: `0x${string}`; nonce: number }): void;
+    markConfirmed(batch: JournalBatch, receipt: { status: 'success' | 'reverted'; gasUsed: bigint; blockNumber: bigint; transactionHash?: `0x${string}` }): void;
+    markFailed(batch: JournalBatch, error: string): void;
+
+    /** Resolve every `sent` batch against the chain and drop stale `planned` ones */
+    reconcile(publicClient: PublicClient, options?: { timeoutMs?: number }): Promise<ReconcileResult>;
+    save(): void;
+}
+
+export function defaultJournalPath(name: string): string {
+    return process.env.JOURNAL_FILE || path.join(JOURNALS_DIR, `${name}.json`);
+}
+
+function loadJournalData(file: string, name: string): JournalData {
+    if (fs.existsSync(file)) {
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as JournalData;
+        if (data.version !== 1) {
+            throw new Error(`Unsupported journal version ${data.version} in ${file}`);
+        }
+        return data;
+    }
+    const now = new Date().toISOString();
+    return { version: 1, name, createdAt: now, updatedAt: now, batches: [] };
+}
+
+export function openJournal(name: string, file: string = defaultJournalPath(name)): DeployJournal {
+    const data = loadJournalData(file, name);
+
+    const itemsInState = (state: BatchState): Set<string> => {
+        const items = new Set<string>();
+        for (const batch of data.batches) {
+            if (batch.state === state) batch.items.forEach(item => items.add(item));
+        }
+        return items;
+    };
+
+    const update = (batch: JournalBatch, fields: Partial<JournalBatch>): void => {
+        Object.assign(batch, fields, { updatedAt: new Date().toISOString() });
+        journal.save();
+    };
+
+    // Journals written before txHashes only have the latest hash
+    const sentHashes = (batch: JournalBatch): `0x${string}`[] => batch.txHashes ?? (batch.txHash ? [batch.txHash] : []);
+
+    /** Receipt of whichever broadcast hash landed, if any */
+    const findReceipt = async (publicClient: PublicClient, batch: JournalBatch) => {
+        for (const hash of sentHashes(batch)) {
+            const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+            if (receipt) return receipt;
+        }
+        return null;
+    };
+
+    const journal: DeployJournal = {
+        file,
+        data,
+
+        completedItems: () => itemsInState('confirmed'),
+        inFlightItems: () => itemsInState('sent'),
+
+        remaining: (items, key) => {
+            const completed = journal.completedItems();
+            const inFlight = journal.inFlightItems();
+            return items.filter(item => !completed.has(key(item)) && !inFlight.has(key(item)));
+        },
+
+        plan: (items) => {
+            const now = new Date().toISOString();
+            const batch: JournalBatch = {
+                id: data.batches.reduce((max, b) => Math.max(max, b.id), 0) + 1,
+                items: [...items],
+                state: 'planned',
+                plannedAt: now,
+                updatedAt: now,
+            };
+            data.batches.push(batch);
+            journal.save();
+            return batch;
+        },
+
+        markSent: (batch, tx) => {
+            // A replacement keeps the earlier hashes: the original may still be the one that lands
+            const replacing = batch.state === 'sent' && batch.nonce === tx.nonce && batch.from === tx.from;
+            update(batch, {
+                state: 'sent',
+                txHash: tx.hash,
+                txHashes: [...(replacing ? sentHashes(batch) : []), tx.hash],
+                from: tx.from,
+                nonce: tx.nonce,
+                error: undefined,
+            });
+        },
+
+        markConfirmed: (batch, receipt) => update(batch, {
+            state: receipt.status === 'success' ? 'confirmed' : 'failed',
+            txHash: receipt.transactionHash ?? batch.txHash,
+            receiptStatus: receipt.status,
+            gasUsed: receipt.gasUsed.toString(),
+            blockNumber: receipt.blockNumber.toString(),
+            error: receipt.status === 'success' ? undefined : 'Transaction reverted',
+        }),
+
+        markFailed: (batch, error) => update(batch, { state: 'failed', error }),
+
+        reconcile: async (publicClient, options = {}) => {
+            const result: ReconcileResult = { confirmed: 0, failed: 0, pending: 0, discarded: 0 };
+
+            // Planned-but-never-sent batches have no on-chain effect; their items are re-planned
+            const stale = data.batches.filter(b => b.state === 'planned');
+            data.batches = data.batches.filter(b => b.state !== 'planned');
+            result.discarded = stale.length;
+
+            for (const batch of data.batches.filter(b => b.state === 'sent')) {
+                const receipt = await findReceipt(publicClient, batch);
+                if (receipt) {
+                    journal.markConfirmed(batch, receipt);
+                    receipt.status === 'success' ? result.confirmed++ : result.failed++;
+                    continue;
+                }
+
+                // No receipt for any of our hashes: if the nonce was used anyway, another tx took it
+                const latestNonce = await publicClient.getTransactionCount({
+                    address: batch.from!,
+                    blockTag: 'latest',
+                });
+                if (batch.nonce !== undefined && latestNonce > batch.nonce) {
+                    journal.markFailed(batch, `Nonce ${batch.nonce} consumed by another transaction`);
+                    result.failed++;
+                    continue;
+                }
+
+                // Still pending in the mempool: give it a chance to land before moving on
+                const waited = await publicClient
+                    .waitForTransactionReceipt({ hash: batch.txHash!, timeout: options.timeoutMs ?? 120_000 })
+                    .catch(() => findReceipt(publicClient, batch));
+                if (waited) {
+                    journal.markConfirmed(batch, waited);
+                    waited.status === 'success' ? result.confirmed++ : result.failed++;
+                } else {
+                    result.pending++;
+                }
+            }
+
+            if (result.discarded > 0) journal.save();
+            return result;
+        },
+
+        save: () => {
+            data.updatedAt = new Date().toISOString();
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            const tmp = `${file}.tmp`;
+            fs.writeFileSync(tmp, JSON.stringify(data, null, 2) + '\n');
+            fs.renameSync(tmp, file);
+        },
+    };
+
+    return journal;
+}
+
+export function describeReconcile(result: ReconcileResult): string {
+    return `${result.confirmed} confirmed, ${result.failed} failed, ${result.pending} still pending, ${result.discarded} stale planned batches discarded`;
+}
@@ -4,34 +4,89 @@
  * 
  * Creates a comprehensive manifest of all on-chain icons with metadata
  * for discovery and heuristic matching.
+ *
+ * Also writes a sharded copy to docs/manifest/ for clients that only need a few
+ * icons: one file per category, one per category and slug prefix (the first
+ * character of the slug name), and the chain/token lookup tables, listed with
+ * their SHA-256 in a small docs/manifest/index.json.
+ *
+ * docs/search-index.json is a prebuilt fuzzy search index over the same icons;
+ * load it with scripts/icon-search.ts.
+ *
+ * The manifest and index are validated against docs/schemas/ before anything is
+ * written (see schemas.ts).
+ *
+ * Each entry records whether the icon is on-chain. On-chain entries carry the
+ * pointer, version and dimensions from getIconInfo plus the byte length and
+ * keccak256 of the stored PNG; entries still in pending-uploads.json are marked
+ * pending. SSTORE2 pointers are immutable, so PNGs are only downloaded for
+ * pointers the previous manifest doesn't describe.
+ *
+ * With INCREMENTAL=true the registry isn't scanned: the event index
+ * (registry-index.ts) is synced and only icons added or updated since the
+ * previous manifest are read. Either way the output is byte-identical when
+ * nothing changed (generatedAt is kept), and the added, removed and changed
+ * entries of each run that changed something are prepended to
+ * docs/manifest-changelog.json.
  * 
  * Usage:
  *   npx tsx scripts/generate-manifest.ts
+ *   INCREMENTAL=true npx tsx scripts/generate-manifest.ts
+ *   ONCHAIN=false npx tsx scripts/generate-manifest.ts   # Offline
+ *
+ * Environment:
+ *   RPC_URL - Ethereum RPC endpoint (default: https://eth.drpc.org)
+ *   ONCHAIN - If "false", copy on-chain fields from the previous manifest instead
+ *             of reading the registry; icons it doesn't list count as not on-chain
+ *   INCREMENTAL - If "true", read only new on-chain events (full build without a
+ *                 previous manifest); see registry-index.ts for INDEX_DB etc.
+ *   CHANGELOG_FILE - Changelog path (default: docs/manifest-changelog.json)
  */
 
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { createPublicClient, http, keccak256, toHex } from 'viem';
+import { createPublicClient, http, keccak256, size, toHex, type PublicClient } from 'viem';
 import { mainnet } from 'viem/chains';
+import { CHAIN_MAPPINGS_FILE, loadChainMappings } from './chain-mappings';
+import { createIconRegistryClient, PROXY_ADDRESS, slugToHash, type IconRegistryClient } from './icon-registry-client';
+import { buildSearchIndex, createIconSearch } from './icon-search';
+import { createRegistryIndex, registryIndexEnv } from './registry-index';
+import { assertValidArtifact, loadManifest, SchemaValidationError } from './schemas';
+import type { ChainMapping, Manifest, ManifestIcon, ManifestIndex, TokenMapping, TokenRef } from './schema-types';
+import { loadTokenMappingsFile, TOKEN_MAPPINGS_FILE } from './token-mappings';
 
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
 const OUTPUT_FILE = path.join(__dirname, '..', 'docs', 'manifest.json');
 const INDEX_FILE = path.join(__dirname, '..', 'docs', 'manifest-index.json');
+const SHARDS_DIR = path.join(__dirname, '..', 'docs', 'manifest');
+const SEARCH_INDEX_FILE = path.join(__dirname, '..', 'docs', 'search-index.json');
+// Top search result expected for a query; generation fails if ranking changes break one
+const SEARCH_CHECKS: Record<string, string> = {
+    'uni': 'protocols/uniswap',
+    'uniswap': 'protocols/uniswap',
+    'univ3': 'protocols/uniswap-v3',
+};
+const PENDING_FILE = path.join(__dirname, '..', 'pending-uploads.json');
+const CHANGELOG_FILE = process.env.CHANGELOG_FILE || path.join(__dirname, '..', 'docs', 'manifest-changelog.json');
+const CHANGELOG_RUNS = 100;
+const SHARD_PREFIX_LENGTH = 1;
 const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+const ONCHAIN = process.env.ONCHAIN !== 'false';
+const INCREMENTAL = process.env.INCREMENTAL === 'true';
+const INFO_BATCH_SIZE = 500;
+const CONTENT_BATCH_SIZE = 50;
 
-// Load existing mappings
-const CHAIN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'chain-mappings.json');
-const TOKEN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'token-mappings.json');
-
-interface IconEntry {
-    slug: string;
-    slugHash: string;
-    category: string;
-    name: string;
-    keywords: string[];
-    chainMappings?: number[];
-    tokenMappings?: Array<{ address: string; chainId: number }>;
+// Bump the major together with a new docs/schemas/manifest.v<major>.schema.json
+const MANIFEST_VERSION = '1.1.0';
+
+type OnChainFields = Pick<ManifestIcon, 'onChain' | 'pointer' | 'version' | 'width' | 'height' | 'byteLength' | 'contentHash'>;
+
+interface ShardRef {
+    /** Path relative to the shard index */
+    file: string;
+    sha256: string;
+    count: number;
 }
 
 function slugToName(slug: string): string {
@@ -112,27 +167,176 @@ function pathToSlug(filePath: string): string {
     return path.relative(ICONS_DIR, filePath).replace(/\.png$/, '').replace(/\\/g, '/');
 }
 
+/**
+ * Shard of a slug: "protocols/uniswap" → "protocols/u". The rsz prefix is skipped so
+ * that raw and clean slugs ("chains/rszabstract", "chains/abstract") share a shard;
+ * names starting with anything but a-z0-9 go to "_".
+ */
+function shardPrefix(slug: string): string {
+    const [category, name = ''] = slug.split('/');
+    const prefix = name.replace(/^rsz[-_]?/i, '').slice(0, SHARD_PREFIX_LENGTH).toLowerCase().replace(/[^a-z0-9]/g, '_');
+    return `${category}/${prefix || '_'}`;
+}
+
+function writeShard(file: string, data: unknown, count: number): ShardRef {
+    const content = JSON.stringify(data, null, 2) + '\n';
+    const fullPath = path.join(SHARDS_DIR, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return { file, sha256: createHash('sha256').update(content).digest('hex'), count };
+}
+
+function onChainFields(icon: ManifestIcon): OnChainFields {
+    const { onChain, pointer, version, width, height, byteLength, contentHash } = icon;
+    return onChain ? { onChain, pointer, version, width, height, byteLength, contentHash } : { onChain: false };
+}
+
+/**
+ * Read the on-chain fields of slugs stored in the registry. `previous` entries
+ * supply the byte length and hash of pointers they already describe.
+ */
+async function readOnChainFields(
+    registry: IconRegistryClient,
+    stored: string[],
+    previous: ManifestIcon[]
+): Promise<Map<string, OnChainFields>> {
+    const fields = new Map<string, OnChainFields>();
+    for (let i = 0; i < stored.length; i += INFO_BATCH_SIZE) {
+        // Concurrent reads are batched into Multicall3 calls by the client
+        const batch = stored.slice(i, i + INFO_BATCH_SIZE);
+        const infos = await Promise.all(batch.map(slug => registry.getIconInfo(slugToHash(slug))));
+        batch.forEach((slug, j) => {
+            const { pointer, version, width, height } = infos[j];
+            fields.set(slug, { onChain: true, pointer, version, width, height });
+        });
+    }
+
+    const known = new Map<string, Pick<ManifestIcon, 'byteLength' | 'contentHash'>>();
+    for (const icon of previous) {
+        if (icon.pointer && icon.byteLength && icon.contentHash) {
+            known.set(icon.pointer.toLowerCase(), { byteLength: icon.byteLength, contentHash: icon.contentHash });
+        }
+    }
+
+    const unknown: string[] = [];
+    for (const [slug, f] of fields) {
+        const content = known.get(f.pointer!.toLowerCase());
+        if (content) Object.assign(f, content);
+        else unknown.push(slug);
+    }
+    console.log(`Reading ${unknown.length} PNGs for new pointers (${fields.size - unknown.length} known)...`);
+    for (let i = 0; i < unknown.length; i += CONTENT_BATCH_SIZE) {
+        const batch = unknown.slice(i, i + CONTENT_BATCH_SIZE);
+        const datas = await registry.batchGetIcons(batch.map(slug => slugToHash(slug)));
+        batch.forEach((slug, j) => {
+            Object.assign(fields.get(slug)!, { byteLength: size(datas[j]), contentHash: keccak256(datas[j]) });
+        });
+    }
+
+    return fields;
+}
+
+/** On-chain fields by slug for every slug stored in the registry */
+async function fetchOnChainFields(
+    registry: IconRegistryClient,
+    slugs: string[],
+    previous: ManifestIcon[]
+): Promise<Map<string, OnChainFields>> {
+    console.log('Fetching on-chain slugs...');
+    const onChainHashes = await registry.getAllSlugHashes(1000);
+    const stored = slugs.filter(slug => onChainHashes.has(slugToHash(slug).toLowerCase()));
+    console.log(`${stored.length}/${slugs.length} local icons are on-chain`);
+    return readOnChainFields(registry, stored, previous);
+}
+
+/**
+ * Incremental variant of fetchOnChainFields: the event index (registry-index.ts)
+ * knows every stored slug with its current pointer and version, so only icons
+ * that are new or changed since the previous manifest are read from the registry.
+ */
+async function fetchIndexedOnChainFields(
+    registry: IconRegistryClient,
+    slugs: string[],
+    previous: ManifestIcon[]
+): Promise<Map<string, OnChainFields>> {
+    const index = createRegistryIndex({ ...registryIndexEnv(), publicClient: registry.publicClient });
+    try {
+        const { fromBlock, toBlock, logs } = await index.sync();
+        console.log(fromBlock > toBlock
+            ? `Event index is up to date at block ${index.lastBlock()}`
+            : `Event index synced: blocks ${fromBlock}-${toBlock}, ${logs} new logs`);
+
+        const indexed = new Map(index.allIcons().map(icon => [icon.slugHash.toLowerCase(), icon]));
+        const previousBySlug = new Map(previous.map(icon => [icon.slug, icon]));
+        const fields = new Map<string, OnChainFields>();
+        const stale: string[] = [];
+        for (const slug of slugs) {
+            const icon = indexed.get(slugToHash(slug).toLowerCase());
+            if (!icon) continue;
+            const before = previousBySlug.get(slug);
+            if (before?.onChain && before.pointer?.toLowerCase() === icon.pointer.toLowerCase() && before.version === icon.version) {
+                fields.set(slug, onChainFields(before));
+            } else {
+                stale.push(slug);
+            }
+        }
+        console.log(`${fields.size + stale.length}/${slugs.length} local icons are on-chain, ${stale.length} new or changed`);
+
+        for (const [slug, f] of await readOnChainFields(registry, stale, previous)) fields.set(slug, f);
+        return fields;
+    } finally {
+        index.close();
+    }
+}
+
+type ChangelogRun = { generatedAt: string; added: string[]; removed: string[]; changed: Array<{ slug: string; fields: string[] }> };
+
+/** Entries added, removed and changed (with the names of changed fields) between two manifests */
+function diffEntries(before: ManifestIcon[], after: ManifestIcon[], generatedAt: string): ChangelogRun {
+    const beforeBySlug = new Map(before.map(icon => [icon.slug, icon]));
+    const afterSlugs = new Set(after.map(icon => icon.slug));
+    const run: ChangelogRun = { generatedAt, added: [], removed: before.filter(icon => !afterSlugs.has(icon.slug)).map(icon => icon.slug), changed: [] };
+
+    for (const icon of after) {
+        const old = beforeBySlug.get(icon.slug);
+        if (!old) {
+            run.added.push(icon.slug);
+            continue;
+        }
+        const keys = new Set([...Object.keys(old), ...Object.keys(icon)]) as Set<keyof ManifestIcon>;
+        const fields = [...keys].filter(key => JSON.stringify(old[key]) !== JSON.stringify(icon[key]));
+        if (fields.length > 0) run.changed.push({ slug: icon.slug, fields });
+    }
+    return run;
+}
+
+function loadPendingSlugs(): Set<string> {
+    if (!fs.existsSync(PENDING_FILE)) return new Set();
+    return new Set((JSON.parse(fs.readFileSync(PENDING_FILE, 'utf-8')) as Array<{ slug: string }>).map(p => p.slug));
+}
+
 async function main() {
     console.log('=== Generating Icon Manifest ===\n');
 
     const publicClient = createPublicClient({
         chain: mainnet,
         transport: http(RPC_URL),
+        batch: { multicall: { batchSize: 16_384 } },
     });
+    const registry = createIconRegistryClient({ publicClient: publicClient as PublicClient });
 
     // Load existing mappings
-    let chainMappings: Array<{ chainId: number; slug: string }> = [];
-    let tokenMappings: Array<{ token: string; chainId: number; slug: string; name: string; symbol: string }> = [];
+    let chainMappings: ChainMapping[] = [];
+    let tokenMappings: TokenMapping[] = [];
 
     if (fs.existsSync(CHAIN_MAPPINGS_FILE)) {
-        const data = JSON.parse(fs.readFileSync(CHAIN_MAPPINGS_FILE, 'utf-8'));
-        chainMappings = data.mappings.map((m: any) => ({ chainId: m.chainId, slug: m.slug }));
+        // Icons are checked by the manifest itself; a missing one just stays unmapped
+        chainMappings = loadChainMappings({ checkIcons: false });
         console.log(`Loaded ${chainMappings.length} chain mappings`);
     }
 
     if (fs.existsSync(TOKEN_MAPPINGS_FILE)) {
-        const data = JSON.parse(fs.readFileSync(TOKEN_MAPPINGS_FILE, 'utf-8'));
-        tokenMappings = data.mappings;
+        tokenMappings = loadTokenMappingsFile().mappings;
         console.log(`Loaded ${tokenMappings.length} token mappings`);
     }
 
@@ -144,7 +348,7 @@ async function main() {
         chainsBySlug.set(m.slug, existing);
     }
 
-    const tokensBySlug = new Map<string, Array<{ address: string; chainId: number }>>();
+    const tokensBySlug = new Map<string, TokenRef[]>();
     for (const m of tokenMappings) {
         const existing = tokensBySlug.get(m.slug) || [];
         existing.push({ address: m.token, chainId: m.chainId });
@@ -155,8 +359,32 @@ async function main() {
     const pngs = findAllPngs(ICONS_DIR);
     console.log(`Found ${pngs.length} local icons\n`);
 
+    let previousManifest: Manifest | undefined;
+    if (fs.existsSync(OUTPUT_FILE)) {
+        try {
+            previousManifest = loadManifest(OUTPUT_FILE);
+        } catch (err) {
+            if (!(err instanceof SchemaValidationError)) throw err;
+            console.warn(`Ignoring the previous manifest: ${err.message}`);
+        }
+    }
+    const previous = previousManifest?.icons ?? [];
+    if (INCREMENTAL && !previousManifest) console.log('INCREMENTAL=true: no previous manifest, doing a full build');
+
+    let onChain: Map<string, OnChainFields>;
+    if (ONCHAIN && INCREMENTAL && previousManifest) {
+        onChain = await fetchIndexedOnChainFields(registry, pngs.map(pathToSlug), previous);
+    } else if (ONCHAIN) {
+        onChain = await fetchOnChainFields(registry, pngs.map(pathToSlug), previous);
+    } else {
+        onChain = new Map(previous.filter(icon => icon.onChain).map(icon => [icon.slug, onChainFields(icon)]));
+        console.log(`ONCHAIN=false: copied on-chain fields of ${onChain.size} icons from the previous manifest`);
+    }
+    const pending = loadPendingSlugs();
+    console.log('');
+
     // Build manifest entries
-    const entries: IconEntry[] = [];
+    const entries: ManifestIcon[] = [];
     const categories = new Map<string, number>();
 
     for (const filePath of pngs) {
@@ -168,7 +396,7 @@ async function main() {
 
         categories.set(category, (categories.get(category) || 0) + 1);
 
-        const entry: IconEntry = {
+        const entry: ManifestIcon = {
             slug,
             slugHash,
             category,
@@ -189,6 +417,9 @@ async function main() {
             entry.tokenMappings = tokens;
         }
 
+        Object.assign(entry, onChain.get(slug) ?? { onChain: false });
+        if (!entry.onChain && pending.has(slug)) entry.pending = true;
+
         entries.push(entry);
     }
 
@@ -201,18 +432,20 @@ async function main() {
     // Build stats
     const stats = {
         total: entries.length,
-        byCategory: Object.fromEntries(categories),
+        byCategory: Object.fromEntries([...categories].sort(([a], [b]) => a.localeCompare(b))),
         mapped: {
             chains: entries.filter(e => e.chainMappings).length,
             tokens: entries.filter(e => e.tokenMappings).length,
             total: entries.filter(e => e.chainMappings || e.tokenMappings).length,
         },
         unmapped: entries.length - entries.filter(e => e.chainMappings || e.tokenMappings).length,
+        onChain: entries.filter(e => e.onChain).length,
+        pending: entries.filter(e => e.pending).length,
     };
 
     // Generate manifest
-    const manifest = {
-        version: '1.0.0',
+    const manifest: Manifest = {
+        version: MANIFEST_VERSION,
         generatedAt: new Date().toISOString(),
         contract: PROXY_ADDRESS,
         network: 'mainnet',
@@ -231,11 +464,14 @@ async function main() {
         icons: entries,
     };
 
-    // Write manifest
-    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(manifest, null, 2) + '\n');
+    // Unchanged inputs give a byte-identical manifest: only a content change moves generatedAt
+    const manifestJson = (m: Manifest) => JSON.stringify(m, null, 2) + '\n';
+    const unchanged = previousManifest !== undefined &&
+        manifestJson({ ...manifest, generatedAt: previousManifest.generatedAt }) === fs.readFileSync(OUTPUT_FILE, 'utf-8');
+    if (unchanged) manifest.generatedAt = previousManifest!.generatedAt;
 
     // Generate lightweight index with actual on-chain slugs
-    const index = {
+    const index: ManifestIndex = {
         version: manifest.version,
         generatedAt: manifest.generatedAt,
         contract: manifest.contract,
@@ -251,7 +487,77 @@ async function main() {
             agg_icons: entries.filter(e => e.category === 'agg_icons').map(e => e.slug),
         },
     };
+
+    // Nothing is written unless both match their schemas
+    assertValidArtifact('manifest', manifest, OUTPUT_FILE);
+    assertValidArtifact('manifest-index', index, INDEX_FILE);
+    fs.writeFileSync(OUTPUT_FILE, manifestJson(manifest));
     fs.writeFileSync(INDEX_FILE, JSON.stringify(index, null, 2) + '\n');
+
+    // Shards hold no timestamps, so their hashes only change with their content
+    fs.rmSync(SHARDS_DIR, { recursive: true, force: true });
+    const categoryShards: Record<string, ShardRef> = {};
+    for (const category of [...categories.keys()].sort()) {
+        const icons = entries.filter(e => e.category === category);
+        categoryShards[category] = writeShard(`categories/${category}.json`, { category, icons }, icons.length);
+    }
+
+    const byPrefix = new Map<string, ManifestIcon[]>();
+    for (const entry of entries) {
+        const prefix = shardPrefix(entry.slug);
+        byPrefix.set(prefix, [...(byPrefix.get(prefix) || []), entry]);
+    }
+    const prefixShards: Record<string, ShardRef> = {};
+    for (const prefix of [...byPrefix.keys()].sort()) {
+        const icons = byPrefix.get(prefix)!;
+        prefixShards[prefix] = writeShard(`prefixes/${prefix}.json`, { prefix, icons }, icons.length);
+    }
+
+    const mappingsShard = writeShard('mappings.json', {
+        chainIdToSlug: index.chainIdToSlug,
+        tokenToSlug: index.tokenToSlug,
+    }, chainMappings.length + tokenMappings.length);
+
+    const shardIndex = {
+        version: manifest.version,
+        generatedAt: manifest.generatedAt,
+        contract: manifest.contract,
+        network: manifest.network,
+        stats: manifest.stats,
+        usage: manifest.usage,
+        sharding: {
+            prefixLength: SHARD_PREFIX_LENGTH,
+            description: 'An icon is in prefixes/<category>/<first character of its slug name, after any rsz/rsz_/rsz- prefix, lowercased>.json; characters other than a-z0-9 map to "_". Verify shards against sha256.',
+            example: 'protocols/uniswap → prefixes/protocols/u.json',
+        },
+        mappings: mappingsShard,
+        categories: categoryShards,
+        prefixes: prefixShards,
+    };
+    const shardIndexFile = path.join(SHARDS_DIR, 'index.json');
+    fs.writeFileSync(shardIndexFile, JSON.stringify(shardIndex, null, 2) + '\n');
+
+    // Search index: token symbols make "usdc" find pegged/usd-coin
+    const symbolsBySlug = new Map<string, Set<string>>();
+    for (const m of tokenMappings) {
+        symbolsBySlug.set(m.slug, (symbolsBySlug.get(m.slug) || new Set()).add(m.symbol));
+    }
+    const searchIndex = buildSearchIndex(entries.map(e => ({
+        slug: e.slug,
+        name: e.name,
+        mapped: Boolean(e.chainMappings || e.tokenMappings),
+        symbols: [...(symbolsBySlug.get(e.slug) || symbolsBySlug.get(cleanSlug(e.slug)) || [])],
+        group: cleanSlug(e.slug),
+    })), manifest.generatedAt);
+    const search = createIconSearch(searchIndex);
+    const misranked = Object.entries(SEARCH_CHECKS)
+        .map(([query, expected]) => ({ query, expected, top: search.search(query, { limit: 1 })[0]?.slug }))
+        .filter(check => check.top !== check.expected);
+    if (misranked.length > 0) {
+        throw new Error(`Search index ranks wrong icons first:\n  ${misranked.map(c => `"${c.query}" → ${c.top ?? 'nothing'} (expected ${c.expected})`).join('\n  ')}`);
+    }
+    // Compact: clients download this, nobody reads it
+    fs.writeFileSync(SEARCH_INDEX_FILE, JSON.stringify(searchIndex) + '\n');
     
     console.log('=== Manifest Generated ===');
     console.log(`Total icons: ${stats.total}`);
@@ -259,8 +565,24 @@ async function main() {
     console.log(`Mapped (chains): ${stats.mapped.chains}`);
     console.log(`Mapped (tokens): ${stats.mapped.tokens}`);
     console.log(`Unmapped: ${stats.unmapped}`);
+    console.log(`On-chain: ${stats.onChain} (${stats.pending} pending upload)`);
     console.log(`\nWritten to: ${OUTPUT_FILE}`);
     console.log(`Index written to: ${INDEX_FILE}`);
+    console.log(`Shards written to: ${SHARDS_DIR} (${Object.keys(categoryShards).length} categories, ${Object.keys(prefixShards).length} prefixes)`);
+    console.log(`Search index written to: ${SEARCH_INDEX_FILE} (${searchIndex.terms.length} terms)`);
+
+    if (unchanged) {
+        console.log('\nNo changes since the previous manifest');
+        return;
+    }
+    if (!previousManifest) return;
+    const run = diffEntries(previous, entries, manifest.generatedAt);
+    console.log(`\nChanges: ${run.added.length} added, ${run.removed.length} removed, ${run.changed.length} changed`);
+    if (run.added.length + run.removed.length + run.changed.length > 0) {
+        const runs: ChangelogRun[] = fs.existsSync(CHANGELOG_FILE) ? JSON.parse(fs.readFileSync(CHANGELOG_FILE, 'utf-8')).runs : [];
+        fs.writeFileSync(CHANGELOG_FILE, JSON.stringify({ runs: [run, ...runs].slice(0, CHANGELOG_RUNS) }, null, 2) + '\n');
+        console.log(`Changelog written to: ${CHANGELOG_FILE}`);
+    }
 }
 
 main().catch(err => {
@@ -0,0 +1,218 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate Registry History
+ *
+ * Adds dated sections to docs/registry-history.md from the event index
+ * (registry-index.ts): icons added, icons re-versioned, token and chain mappings
+ * changed and contract upgrades, each linked to its transaction on Etherscan.
+ * Sections are dated by block timestamp (UTC) and inserted newest first below
+ * "## [Unreleased]"; hand-written sections are left alone.
+ *
+ * The last block covered is kept in a marker comment under "## [Unreleased]", so
+ * each run only adds what happened since. Events of the current UTC day are left
+ * for the next run, so no day gets two sections; a run that would add a section
+ * for a date the file already has (a first run whose FROM_BLOCK reaches into the
+ * hand-written ones) stops instead. The index keeps the latest
+ * mapping per token and chain, so a mapping changed twice between runs is
+ * listed once, with its current slug.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-registry-history.ts
+ *   FROM_BLOCK=24000000 npx tsx scripts/generate-registry-history.ts   # First run
+ *   DRY_RUN=true npx tsx scripts/generate-registry-history.ts          # Print instead of writing
+ *
+ * Environment:
+ *   FROM_BLOCK - First block to cover when the history has no marker yet
+ *   DRY_RUN - If "true", print the new sections without writing
+ *   RPC_URL - Ethereum RPC endpoint (default: https://eth.drpc.org)
+ *   INDEX_DB etc. - See registry-index.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { CHAIN_MAPPINGS_FILE, loadChainMappings } from './chain-mappings';
+import { createRegistryIndex, registryIndexEnv } from './registry-index';
+import { loadTokenMappingsFile, TOKEN_MAPPINGS_FILE } from './token-mappings';
+
+const HISTORY_FILE = path.join(__dirname, '..', 'docs', 'registry-history.md');
+const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+const FROM_BLOCK = process.env.FROM_BLOCK ? parseInt(process.env.FROM_BLOCK) : undefined;
+const DRY_RUN = process.env.DRY_RUN === 'true';
+
+const UNRELEASED = '## [Unreleased]';
+const MARKER = /<!-- history: block (\d+) -->/;
+const DATED_HEADING = /^## \[(\d{4}-\d{2}-\d{2})\]/gm;
+/** Icons listed per transaction before "and N more" */
+const MAX_SLUGS = 20;
+
+interface HistoryEvent {
+    blockNumber: number;
+    txHash: `0x${string}`;
+    /** Section heading, e.g. "Icons" */
+    section: string;
+    /** Markdown without the tx link; the slug for icon events */
+    text: string;
+    /** Icon events: the new version (1 for added icons) */
+    version?: number;
+}
+
+function txLink(txHash: string): string {
+    return `[\`${txHash.slice(0, 10)}...\`](https://etherscan.io/tx/${txHash})`;
+}
+
+function slugList(slugs: string[]): string {
+    const listed = slugs.slice(0, MAX_SLUGS).join(', ');
+    return slugs.length > MAX_SLUGS ? `${listed} and ${slugs.length - MAX_SLUGS} more` : listed;
+}
+
+/** Markdown of one dated section; icon events of the same tx are merged into one line */
+function renderSection(date: string, events: HistoryEvent[]): string {
+    const lines: string[] = [`## [${date}]`, ''];
+    for (const section of ['Contract Upgrade', 'Icons', 'Token Mappings', 'Chain Mappings']) {
+        const inSection = events.filter(e => e.section === section);
+        if (inSection.length === 0) continue;
+
+        lines.push(`### ${section}`);
+        if (section === 'Icons') {
+            const byTx = new Map<string, { added: string[]; updated: string[] }>();
+            for (const e of inSection) {
+                const tx = byTx.get(e.txHash) ?? { added: [], updated: [] };
+                if (e.version === 1) tx.added.push(`\`${e.text}\``);
+                else tx.updated.push(`\`${e.text}\` (v${e.version})`);
+                byTx.set(e.txHash, tx);
+            }
+            for (const [txHash, { added, updated }] of byTx) {
+                if (added.length) lines.push(`- Added ${added.length} icon${added.length === 1 ? '' : 's'} (${txLink(txHash)}): ${slugList(added)}`);
+                if (updated.length) lines.push(`- Updated ${updated.length} icon${updated.length === 1 ? '' : 's'} (${txLink(txHash)}): ${slugList(updated)}`);
+            }
+        } else {
+            for (const e of inSection) lines.push(`- ${e.text} (${txLink(e.txHash)})`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+/** UTC dates (YYYY-MM-DD) of the given blocks */
+async function blockDates(publicClient: PublicClient, blockNumbers: number[]): Promise<Map<number, string>> {
+    const dates = new Map<number, string>();
+    const unique = [...new Set(blockNumbers)];
+    for (let i = 0; i < unique.length; i += 100) {
+        const blocks = await Promise.all(unique.slice(i, i + 100).map(blockNumber =>
+            publicClient.getBlock({ blockNumber: BigInt(blockNumber) })
+        ));
+        for (const block of blocks) {
+            dates.set(Number(block.number), new Date(Number(block.timestamp) * 1000).toISOString().slice(0, 10));
+        }
+    }
+    return dates;
+}
+
+async function main() {
+    console.log('=== Generating Registry History ===\n');
+
+    const history = fs.readFileSync(HISTORY_FILE, 'utf-8');
+    if (!history.includes(UNRELEASED)) throw new Error(`${HISTORY_FILE} has no "${UNRELEASED}" heading`);
+
+    const marker = history.match(MARKER);
+    const previousMarker = marker ? parseInt(marker[1]) : undefined;
+    const fromBlock = previousMarker !== undefined ? previousMarker + 1 : FROM_BLOCK;
+    if (fromBlock === undefined) {
+        throw new Error(`${HISTORY_FILE} has no history marker; set FROM_BLOCK to the first block to cover`);
+    }
+
+    const publicClient = createPublicClient({
+        chain: mainnet,
+        transport: http(RPC_URL, { batch: true }),
+    }) as PublicClient;
+
+    const index = createRegistryIndex({ ...registryIndexEnv(), publicClient });
+    const events: HistoryEvent[] = [];
+    let lastBlock: number;
+    try {
+        await index.sync({ onProgress: message => console.log(message) });
+        lastBlock = Number(index.lastBlock());
+        console.log(`Covering blocks ${fromBlock}-${lastBlock}\n`);
+
+        const slugOf = (slugHash: `0x${string}`) => index.getIcon(slugHash)?.slug ?? slugHash;
+        const inRange = (e: { blockNumber: number }) => e.blockNumber >= fromBlock && e.blockNumber <= lastBlock;
+
+        for (const icon of index.allIcons()) {
+            for (const v of index.iconVersions(icon.slugHash).filter(inRange)) {
+                events.push({ blockNumber: v.blockNumber, txHash: v.txHash, section: 'Icons', text: v.slug, version: v.version });
+            }
+        }
+
+        const tokens = new Map<string, string>();
+        if (fs.existsSync(TOKEN_MAPPINGS_FILE)) {
+            for (const m of loadTokenMappingsFile().mappings) tokens.set(`${m.chainId}:${m.token.toLowerCase()}`, m.symbol);
+        }
+        for (const m of index.tokenMappings().filter(inRange)) {
+            const symbol = tokens.get(`${m.chainId}:${m.token}`);
+            const text = `${symbol ? `${symbol} ` : ''}\`${m.token}\` on chain ${m.chainId} → \`${slugOf(m.slugHash)}\``;
+            events.push({ blockNumber: m.blockNumber, txHash: m.txHash, section: 'Token Mappings', text });
+        }
+
+        const chains = new Map<number, string>();
+        if (fs.existsSync(CHAIN_MAPPINGS_FILE)) {
+            for (const m of loadChainMappings({ checkIcons: false })) chains.set(m.chainId, m.name);
+        }
+        for (const m of index.chainMappings().filter(inRange)) {
+            const name = chains.get(m.chainId);
+            const text = `${name ? `${name} (${m.chainId})` : `Chain ${m.chainId}`} → \`${slugOf(m.slugHash)}\``;
+            events.push({ blockNumber: m.blockNumber, txHash: m.txHash, section: 'Chain Mappings', text });
+        }
+
+        for (const u of index.upgrades().filter(inRange)) {
+            const text = `Upgraded to implementation \`${u.implementation}\``;
+            events.push({ blockNumber: u.blockNumber, txHash: u.txHash, section: 'Contract Upgrade', text });
+        }
+    } finally {
+        index.close();
+    }
+
+    events.sort((a, b) => a.blockNumber - b.blockNumber);
+    const dates = await blockDates(publicClient, [...events.map(e => e.blockNumber), lastBlock]);
+
+    // The current day may still get events; it is written once it is over
+    const today = dates.get(lastBlock)!;
+    const firstToday = events.find(e => dates.get(e.blockNumber) === today);
+    const coveredTo = firstToday ? firstToday.blockNumber - 1 : lastBlock;
+
+    const covered = events.filter(e => e.blockNumber <= coveredTo);
+    const byDate = new Map<string, HistoryEvent[]>();
+    for (const e of covered) {
+        const date = dates.get(e.blockNumber)!;
+        byDate.set(date, [...(byDate.get(date) || []), e]);
+    }
+    const existing = new Set([...history.matchAll(DATED_HEADING)].map(m => m[1]));
+    const clashes = [...byDate.keys()].filter(date => existing.has(date));
+    if (clashes.length > 0) {
+        throw new Error(`${HISTORY_FILE} already has sections for ${clashes.join(', ')}; ` +
+            'set FROM_BLOCK past them, or merge them by hand and set the marker');
+    }
+    const sections = [...byDate].reverse().map(([date, dayEvents]) => renderSection(date, dayEvents));
+    console.log(`${covered.length} events in ${sections.length} new sections (through block ${coveredTo})`);
+    if (firstToday) console.log(`Leaving events from ${today} (block ${firstToday.blockNumber} on) for the next run`);
+
+    // Never move the marker back, e.g. when the index is behind the previous run
+    const markerBlock = previousMarker !== undefined ? Math.max(previousMarker, coveredTo) : coveredTo;
+    const header = `${UNRELEASED}\n\n<!-- history: block ${markerBlock} -->\n`;
+    const rest = history.replace(MARKER, '').split(UNRELEASED)[1].replace(/^\s*\n/, '');
+    const updated = history.split(UNRELEASED)[0] + [header, ...sections, rest].join('\n');
+
+    if (DRY_RUN) {
+        console.log('\nDRY_RUN=true: not writing\n');
+        console.log(sections.join('\n'));
+        return;
+    }
+    fs.writeFileSync(HISTORY_FILE, updated);
+    console.log(`\nWritten to: ${HISTORY_FILE}`);
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
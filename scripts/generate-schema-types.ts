@@ -0,0 +1,170 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate Schema Types
+ *
+ * Writes scripts/schema-types.ts, the TypeScript types of the JSON artifacts in
+ * docs/, from the current (newest major) or vendored schema of each artifact in
+ * docs/schemas/. Run it after editing a schema; with --check it only fails if
+ * schema-types.ts is out of date.
+ *
+ * Top-level schemas become interfaces named by their title (without spaces),
+ * $defs and definitions become interfaces (objects) or type aliases (everything
+ * else) named by their key, anyOf becomes a union, and descriptions become doc
+ * comments.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-schema-types.ts
+ *   npx tsx scripts/generate-schema-types.ts --check
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    ARTIFACT_FILES,
+    artifactSchemaFile,
+    readSchema,
+    resolveRef,
+    type ArtifactName,
+    type JsonSchema,
+} from './schemas';
+
+const OUTPUT_FILE = path.join(__dirname, 'schema-types.ts');
+const CHECK = process.argv.includes('--check');
+
+const INDENT = '    ';
+
+function docComment(description: string | undefined, indent: string): string {
+    return description ? `${indent}/** ${description} */\n` : '';
+}
+
+function isObjectType(schema: JsonSchema): boolean {
+    return schema.type === 'object' && schema.properties !== undefined;
+}
+
+class TypeWriter {
+    private readonly declarations: string[] = [];
+    /** Declared names and the schema file that declared them */
+    private readonly declared = new Map<string, string>();
+
+    /** TypeScript for a schema used inline, e.g. a property type */
+    typeOf(schema: JsonSchema, file: string, indent: string): string {
+        if (schema.$ref) {
+            const target = resolveRef(schema.$ref, file);
+            this.declare(target.name, target.schema, target.file);
+            return target.name;
+        }
+        if (schema.enum) return schema.enum.map(v => this.literal(v)).join(' | ');
+        if (schema.const !== undefined) return this.literal(schema.const);
+        if (schema.anyOf && schema.type === undefined) return schema.anyOf.map(option => this.typeOf(option, file, indent)).join(' | ');
+
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        return types.map(type => {
+            switch (type) {
+                case 'string':
+                    return 'string';
+                case 'number':
+                case 'integer':
+                    return 'number';
+                case 'boolean':
+                    return 'boolean';
+                case 'null':
+                    return 'null';
+                case 'array': {
+                    const item = schema.items ? this.typeOf(schema.items, file, indent) : 'unknown';
+                    return /^\w+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+                }
+                case 'object':
+                    if (schema.properties) return `{\n${this.members(schema, file, indent + INDENT)}${indent}}`;
+                    if (typeof schema.additionalProperties === 'object') {
+                        return `Record<string, ${this.typeOf(schema.additionalProperties, file, indent)}>`;
+                    }
+                    return 'Record<string, unknown>';
+                default:
+                    return 'unknown';
+            }
+        }).join(' | ');
+    }
+
+    /** Declare a named type once; the same name from two schema files is an error */
+    declare(name: string, schema: JsonSchema, file: string): void {
+        const previous = this.declared.get(name);
+        if (previous === file) return;
+        if (previous) throw new Error(`${name} is declared in both ${previous} and ${file}`);
+        this.declared.set(name, file);
+
+        // Reserve the slot first, so a type comes before the types it refers to
+        const slot = this.declarations.push('') - 1;
+        const declaration = isObjectType(schema)
+            ? `export interface ${name} {\n${this.members(schema, file, INDENT)}}`
+            : `export type ${name} = ${this.typeOf(schema, file, '')};`;
+        this.declarations[slot] = docComment(schema.description, '') + declaration;
+    }
+
+    output(): string {
+        return this.declarations.join('\n\n');
+    }
+
+    private members(schema: JsonSchema, file: string, indent: string): string {
+        const required = new Set(schema.required ?? []);
+        return Object.entries(schema.properties ?? {}).map(([key, property]) => {
+            const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+            const optional = required.has(key) ? '' : '?';
+            const type = this.typeOf(property, file, indent);
+            return `${docComment(property.description, indent)}${indent}${name}${optional}: ${type};\n`;
+        }).join('');
+    }
+
+    private literal(value: unknown): string {
+        return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+    }
+}
+
+function main() {
+    const writer = new TypeWriter();
+    const artifacts = Object.keys(ARTIFACT_FILES) as ArtifactName[];
+    const sources: string[] = [];
+    const artifactTypes: string[] = [];
+
+    for (const artifact of artifacts) {
+        const fileName = artifactSchemaFile(artifact);
+        const schema = readSchema(fileName);
+        if (!schema.title) throw new Error(`${fileName} has no title to name its type`);
+        const typeName = schema.title.replace(/\s+/g, '');
+
+        writer.declare(typeName, schema, fileName);
+        for (const [name, def] of Object.entries({ ...schema.$defs, ...schema.definitions })) writer.declare(name, def, fileName);
+        sources.push(fileName);
+        artifactTypes.push(`${INDENT}'${artifact}': ${typeName};\n`);
+    }
+
+    const content = [
+        '// Generated by scripts/generate-schema-types.ts from docs/schemas/. Do not edit.',
+        `// Schemas: ${sources.join(', ')}`,
+        '',
+        writer.output(),
+        '',
+        '/** Artifact name → type, for the loaders in schemas.ts */',
+        `export interface ArtifactTypes {\n${artifactTypes.join('')}}`,
+        '',
+    ].join('\n');
+
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf-8') : '';
+    if (CHECK) {
+        if (current !== content) {
+            console.error(`${OUTPUT_FILE} is out of date; run npx tsx scripts/generate-schema-types.ts`);
+            process.exit(1);
+        }
+        console.log(`${OUTPUT_FILE} is up to date`);
+        return;
+    }
+
+    fs.writeFileSync(OUTPUT_FILE, content);
+    console.log(`Written ${OUTPUT_FILE} from ${sources.length} schemas`);
+}
+
+try {
+    main();
+} catch (err) {
+    console.error('Fatal error:', err);
+    process.exit(1);
+}
@@ -0,0 +1,195 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate Token List
+ *
+ * Writes docs/token-mappings.json as a Uniswap-standard token list
+ * (https://tokenlists.org) so wallet UIs that already read token lists can show
+ * IconRegistry icons. Each token's logoURI is either a web3:// URL (ERC-4804)
+ * that calls getIconByToken on the registry, or a data: URI with the PNG from
+ * icons-64/.
+ *
+ * Token lists need decimals; mappings that don't record them are looked up with
+ * decimals() through Multicall3 on chains that have an RPC configured, and left
+ * out otherwise. Mappings still awaiting review (see token-mappings.ts) are left
+ * out too.
+ *
+ * Tokens the token list schema rejects are skipped, and the list is checked
+ * against the whole schema before it is written (docs/schemas/tokenlist.schema.json,
+ * vendored from https://uniswap.org/tokenlist.schema.json). Its version follows
+ * the token list rules against the previous output: removing a token bumps major,
+ * adding one bumps minor, changing one bumps patch. An unchanged list keeps its
+ * version and timestamp.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-token-list.ts
+ *   LOGO_FORMAT=data npx tsx scripts/generate-token-list.ts
+ *
+ * Environment:
+ *   LOGO_FORMAT - web3 | data (default: web3)
+ *   OUTPUT_FILE - Output path (default: docs/iconregistry.tokenlist.json)
+ *   RPC_URL - Ethereum RPC for decimals on chain 1 (default: https://eth.drpc.org)
+ *   RPC_URL_<chainId> - RPC for decimals on other chains, e.g. RPC_URL_8453
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createPublicClient, erc20Abi, getAddress, http } from 'viem';
+import { PROXY_ADDRESS } from './icon-registry-client';
+import { ICONS_DIR, localIconSlugs } from './registry-state';
+import type { TokenInfo, UniswapTokenList, Version } from './schema-types';
+import { ARTIFACT_FILES, VENDORED_SCHEMAS, assertValidArtifact, resolveRef, validateJson } from './schemas';
+import { loadTokenMappingsFile, needsReview, tokenMappingKey, type TokenMapping } from './token-mappings';
+
+const OUTPUT_FILE = process.env.OUTPUT_FILE || ARTIFACT_FILES['tokenlist'];
+const LOGO_FORMAT = process.env.LOGO_FORMAT || 'web3';
+const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+
+const LIST_NAME = 'IconRegistry';
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/** Problems with a token against the token list schema's TokenInfo; empty if valid */
+function tokenProblems(token: TokenInfo): string[] {
+    const { schema, file } = resolveRef('#/definitions/TokenInfo', VENDORED_SCHEMAS['tokenlist']!);
+    return validateJson(schema, token, file, 'token');
+}
+
+/** Tokens listed twice, which the schema doesn't catch */
+function duplicateTokens(tokens: TokenInfo[]): string[] {
+    const seen = new Set<string>();
+    return tokens.flatMap(t => {
+        const key = tokenMappingKey({ chainId: t.chainId, token: t.address });
+        if (seen.has(key)) return [key];
+        seen.add(key);
+        return [];
+    });
+}
+
+/** Token list semver: removals are major, additions minor, changes patch */
+function nextVersion(previous: UniswapTokenList | undefined, tokens: TokenInfo[]): Version | undefined {
+    if (!previous) return { major: 1, minor: 0, patch: 0 };
+
+    const key = (t: TokenInfo) => tokenMappingKey({ chainId: t.chainId, token: t.address });
+    const before = new Map(previous.tokens.map(t => [key(t), t]));
+    const after = new Map(tokens.map(t => [key(t), t]));
+    const { major, minor, patch } = previous.version;
+
+    if ([...before.keys()].some(k => !after.has(k))) return { major: major + 1, minor: 0, patch: 0 };
+    if ([...after.keys()].some(k => !before.has(k))) return { major, minor: minor + 1, patch: 0 };
+    const changed = tokens.some(t => {
+        const old = before.get(key(t))!;
+        return old.name !== t.name || old.symbol !== t.symbol || old.decimals !== t.decimals || old.logoURI !== t.logoURI;
+    });
+    return changed ? { major, minor, patch: patch + 1 } : undefined;
+}
+
+function web3LogoURI(mapping: TokenMapping): string {
+    // The registry lives on mainnet whatever chain the token is on
+    return `web3://${PROXY_ADDRESS}:1/getIconByToken/${getAddress(mapping.token)}/${mapping.chainId}`;
+}
+
+/** Decimals for mappings that don't record them, by mapping key */
+async function fetchDecimals(mappings: TokenMapping[]): Promise<Map<string, number>> {
+    const decimals = new Map<string, number>();
+    const byChain = new Map<number, TokenMapping[]>();
+    for (const m of mappings) byChain.set(m.chainId, [...(byChain.get(m.chainId) ?? []), m]);
+
+    for (const [chainId, chainMappings] of byChain) {
+        const rpcUrl = chainId === 1 ? RPC_URL : process.env[`RPC_URL_${chainId}`];
+        if (!rpcUrl) continue;
+
+        const client = createPublicClient({ transport: http(rpcUrl) });
+        const results = await client.multicall({
+            multicallAddress: MULTICALL3_ADDRESS,
+            allowFailure: true,
+            contracts: chainMappings.map(m => ({
+                address: getAddress(m.token),
+                abi: erc20Abi,
+                functionName: 'decimals' as const,
+            })),
+        });
+        results.forEach((r, i) => {
+            if (r.status === 'success') decimals.set(tokenMappingKey(chainMappings[i]), r.result);
+        });
+    }
+    return decimals;
+}
+
+async function main() {
+    console.log('=== Generating Token List ===\n');
+    if (LOGO_FORMAT !== 'web3' && LOGO_FORMAT !== 'data') throw new Error(`LOGO_FORMAT must be web3 or data, got ${LOGO_FORMAT}`);
+
+    const all = loadTokenMappingsFile().mappings;
+    const mappings = all.filter(m => !needsReview(m));
+    console.log(`Loaded ${all.length} token mappings (${all.length - mappings.length} awaiting review)`);
+
+    const missing = mappings.filter(m => m.decimals === undefined);
+    const fetched = missing.length > 0 ? await fetchDecimals(missing) : new Map<string, number>();
+    console.log(`Decimals: ${mappings.length - missing.length} recorded, ${fetched.size}/${missing.length} read on-chain`);
+
+    const iconFiles = new Map<string, Map<string, string>>();
+    const iconFile = (slug: string) => {
+        const category = slug.split('/')[0];
+        if (!iconFiles.has(category)) iconFiles.set(category, localIconSlugs(category));
+        const pathSlug = iconFiles.get(category)!.get(slug);
+        return pathSlug && path.join(ICONS_DIR, `${pathSlug}.png`);
+    };
+
+    const tokens: TokenInfo[] = [];
+    const skipped: string[] = [];
+    for (const m of mappings) {
+        const decimals = m.decimals ?? fetched.get(tokenMappingKey(m));
+        if (decimals === undefined) {
+            skipped.push(`${tokenMappingKey(m)} ${m.symbol}: no decimals`);
+            continue;
+        }
+
+        let logoURI = web3LogoURI(m);
+        if (LOGO_FORMAT === 'data') {
+            const file = iconFile(m.slug);
+            if (!file || !fs.existsSync(file)) {
+                skipped.push(`${tokenMappingKey(m)} ${m.symbol}: no icon for ${m.slug} in icons-64/`);
+                continue;
+            }
+            logoURI = `data:image/png;base64,${fs.readFileSync(file).toString('base64')}`;
+        }
+
+        const token: TokenInfo = { chainId: m.chainId, address: getAddress(m.token), name: m.name, symbol: m.symbol, decimals, logoURI };
+        const problems = tokenProblems(token);
+        if (problems.length > 0) {
+            skipped.push(`${tokenMappingKey(m)}: not allowed in token lists (${problems[0]})`);
+            continue;
+        }
+        tokens.push(token);
+    }
+    tokens.sort((a, b) => a.chainId - b.chainId || a.address.toLowerCase().localeCompare(b.address.toLowerCase()));
+
+    const previous: UniswapTokenList | undefined = fs.existsSync(OUTPUT_FILE) ? JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf-8')) : undefined;
+    const version = nextVersion(previous, tokens);
+
+    const list: UniswapTokenList = {
+        name: LIST_NAME,
+        timestamp: version ? new Date().toISOString() : previous!.timestamp,
+        version: version ?? previous!.version,
+        keywords: ['iconregistry', 'onchain icons'],
+        tokens,
+    };
+
+    const duplicates = duplicateTokens(tokens);
+    if (duplicates.length > 0) throw new Error(`Token list has duplicate tokens: ${duplicates.join(', ')}`);
+    assertValidArtifact('tokenlist', list, OUTPUT_FILE);
+
+    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(list, null, 2) + '\n');
+
+    const { major, minor, patch } = list.version;
+    console.log(`\nTokens: ${tokens.length} on ${new Set(tokens.map(t => t.chainId)).size} chains`);
+    console.log(`Skipped: ${skipped.length}`);
+    skipped.slice(0, 10).forEach(s => console.log(`  ${s}`));
+    if (skipped.length > 10) console.log(`  ... and ${skipped.length - 10} more`);
+    console.log(`Version: ${major}.${minor}.${patch}${version ? '' : ' (unchanged)'}`);
+    console.log(`\nWritten to: ${OUTPUT_FILE}`);
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
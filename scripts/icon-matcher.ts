@@ -0,0 +1,151 @@
+/**
+ * Icon Matcher
+ *
+ * Fuzzy matching of names (chain names, token names and symbols) to icon slugs,
+ * with a confidence score and the method that produced it, so generated mappings
+ * can be ranked and low-confidence ones sent for review instead of deployed.
+ *
+ * Confidence for one query term of weight w against a slug's name:
+ *   exact       normalized term equals the slug name           w × 1.0
+ *   normalized  equal once stop words are dropped               w × 0.95
+ *   fuzzy       edit-distance similarity s ≥ minSimilarity     w × s × 0.85
+ *
+ * Normalizing "USD+" to "usd" or matching pegged/usd through its source file
+ * pegged/usd+.png loses what tells the two apart, so when either side drops more
+ * than case, accents and separators the match is "normalized" and scored × 0.85,
+ * below REVIEW_CONFIDENCE (see token-mappings.ts).
+ *
+ * Usage:
+ *   import { createIconMatcher } from './icon-matcher';
+ *   const matcher = createIconMatcher(['chains/ethereum', 'chains/arbitrum'], { stopWords: ['mainnet', 'one'] });
+ *   matcher.match([{ term: 'Arbitrum One' }]);  // [{ slug: 'chains/arbitrum', confidence: 0.95, method: 'normalized', ... }]
+ */
+
+export type MatchMethod = 'exact' | 'normalized' | 'fuzzy';
+
+export interface IconMatch {
+    slug: string;
+    confidence: number;
+    method: MatchMethod;
+    /** Query term that produced the match */
+    term: string;
+}
+
+export interface MatchTerm {
+    term: string;
+    /** Trust in this term, 0-1 (default: 1), e.g. lower for symbols than for names */
+    weight?: number;
+}
+
+export interface IconMatcherOptions {
+    /** Words ignored for the "normalized" method, e.g. "mainnet", "network" */
+    stopWords?: string[];
+    /** Minimum similarity for a fuzzy match (default: 0.75) */
+    minSimilarity?: number;
+    /** Path slug of the file behind each slug, when they differ (see localIconSlugs) */
+    sources?: ReadonlyMap<string, string>;
+}
+
+export interface IconMatcher {
+    /** Best match per slug, highest confidence first */
+    match(terms: MatchTerm[], limit?: number): IconMatch[];
+}
+
+/** Lowercase, strip accents and everything that isn't a letter or digit */
+export function normalizeName(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
+}
+
+const SEPARATORS = /[\s_\-.()]+/;
+// Scales any match that relied on dropping characters
+const LOSSY = 0.85;
+
+/** Whether normalizeName() drops more than case, accents and separators */
+function dropsCharacters(name: string): boolean {
+    const folded = name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    return folded.split(SEPARATORS).join('') !== normalizeName(name);
+}
+
+/** 1 - Levenshtein distance / length of the longer string */
+export function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length === 0 || b.length === 0) return 0;
+
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = curr;
+    }
+    return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export function createIconMatcher(slugs: string[], options: IconMatcherOptions = {}): IconMatcher {
+    const minSimilarity = options.minSimilarity ?? 0.75;
+    const stopWords = new Set((options.stopWords ?? []).map(w => w.toLowerCase()));
+
+    const withoutStopWords = (term: string) =>
+        normalizeName(term.split(SEPARATORS).filter(word => !stopWords.has(word.toLowerCase())).join(''));
+    const nameOf = (slug: string) => slug.split('/').pop() ?? slug;
+
+    // Slugs by normalized name; several can share one (chains/zksync-era, chains/zksyncera)
+    const byName = new Map<string, string[]>();
+    // Slugs whose name or source file normalizes to their key only by dropping characters
+    const lossySlugs = new Set<string>();
+    for (const slug of slugs) {
+        const key = normalizeName(nameOf(slug));
+        if (!key) continue;
+        byName.set(key, [...(byName.get(key) ?? []), slug]);
+
+        const source = nameOf(options.sources?.get(slug) ?? slug);
+        if (dropsCharacters(nameOf(slug)) || dropsCharacters(source) || normalizeName(source) !== key) lossySlugs.add(slug);
+    }
+
+    return {
+        match: (terms, limit = 5) => {
+            const best = new Map<string, IconMatch>();
+
+            for (const { term, weight = 1 } of terms) {
+                const exact = normalizeName(term);
+                const stripped = withoutStopWords(term);
+                if (!exact) continue;
+
+                const termIsLossy = dropsCharacters(term);
+                const offer = (slug: string, confidence: number, method: MatchMethod) => {
+                    if (termIsLossy || lossySlugs.has(slug)) {
+                        confidence *= LOSSY;
+                        if (method === 'exact') method = 'normalized';
+                    }
+                    const current = best.get(slug);
+                    if (!current || confidence > current.confidence) best.set(slug, { slug, confidence: round(confidence), method, term });
+                };
+
+                for (const slug of byName.get(exact) ?? []) offer(slug, weight, 'exact');
+                if (stripped && stripped !== exact) {
+                    for (const slug of byName.get(stripped) ?? []) offer(slug, weight * 0.95, 'normalized');
+                }
+
+                const query = stripped || exact;
+                for (const [key, keySlugs] of byName) {
+                    // Cheap length check before the O(n·m) distance
+                    if (Math.abs(key.length - query.length) > (1 - minSimilarity) * Math.max(key.length, query.length)) continue;
+                    const s = similarity(key, query);
+                    if (s < minSimilarity || s === 1) continue;
+                    keySlugs.forEach(slug => offer(slug, weight * s * 0.85, 'fuzzy'));
+                }
+            }
+
+            return [...best.values()]
+                .sort((a, b) => b.confidence - a.confidence || a.slug.localeCompare(b.slug))
+                .slice(0, limit);
+        },
+    };
+}
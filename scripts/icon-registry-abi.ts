@@ -0,0 +1,347 @@
+/**
+ * IconRegistry ABI
+ *
+ * Full ABI of the IconRegistry proxy (errors, events, admin functions, reads
+ * and public storage getters), kept in sync with contracts/IconRegistry.sol.
+ */
+
+export const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
+
+export const ICON_REGISTRY_ABI = [
+    // ========== Errors ==========
+    {
+        name: 'IconNotFound',
+        type: 'error',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+    },
+    {
+        name: 'TokenIconNotMapped',
+        type: 'error',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+        ],
+    },
+    {
+        name: 'ChainIconNotMapped',
+        type: 'error',
+        inputs: [{ name: 'chainId', type: 'uint256' }],
+    },
+    {
+        name: 'InvalidData',
+        type: 'error',
+        inputs: [{ name: 'slug', type: 'string' }],
+    },
+    {
+        name: 'VersionNotFound',
+        type: 'error',
+        inputs: [
+            { name: 'slugHash', type: 'bytes32' },
+            { name: 'version', type: 'uint256' },
+        ],
+    },
+    {
+        name: 'TransferFailed',
+        type: 'error',
+        inputs: [],
+    },
+    {
+        name: 'LengthMismatch',
+        type: 'error',
+        inputs: [
+            { name: 'expected', type: 'uint256' },
+            { name: 'got', type: 'uint256' },
+        ],
+    },
+    {
+        name: 'InvalidPNG',
+        type: 'error',
+        inputs: [],
+    },
+
+    // ========== Events ==========
+    {
+        name: 'IconAdded',
+        type: 'event',
+        inputs: [
+            { name: 'slugHash', type: 'bytes32', indexed: true },
+            { name: 'slug', type: 'string', indexed: false },
+            { name: 'pointer', type: 'address', indexed: false },
+            { name: 'version', type: 'uint32', indexed: false },
+        ],
+    },
+    {
+        name: 'IconUpdated',
+        type: 'event',
+        inputs: [
+            { name: 'slugHash', type: 'bytes32', indexed: true },
+            { name: 'slug', type: 'string', indexed: false },
+            { name: 'pointer', type: 'address', indexed: false },
+            { name: 'version', type: 'uint32', indexed: false },
+        ],
+    },
+    {
+        name: 'TokenMapped',
+        type: 'event',
+        inputs: [
+            { name: 'token', type: 'address', indexed: true },
+            { name: 'chainId', type: 'uint256', indexed: true },
+            { name: 'slugHash', type: 'bytes32', indexed: false },
+        ],
+    },
+    {
+        name: 'ChainMapped',
+        type: 'event',
+        inputs: [
+            { name: 'chainId', type: 'uint256', indexed: true },
+            { name: 'slugHash', type: 'bytes32', indexed: false },
+        ],
+    },
+    {
+        // ERC1967: emitted by the proxy on deployment and on every upgradeToAndCall
+        name: 'Upgraded',
+        type: 'event',
+        inputs: [{ name: 'implementation', type: 'address', indexed: true }],
+    },
+
+    // ========== Admin ==========
+    {
+        name: 'setIcon',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'slug', type: 'string' },
+            { name: 'data', type: 'bytes' },
+            { name: 'width', type: 'uint32' },
+            { name: 'height', type: 'uint32' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'setIconsBatch',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'slugList', type: 'string[]' },
+            { name: 'dataList', type: 'bytes[]' },
+            { name: 'widths', type: 'uint32[]' },
+            { name: 'heights', type: 'uint32[]' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'mapToken',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+            { name: 'slug', type: 'string' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'mapTokensBatch',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'tokens', type: 'address[]' },
+            { name: 'chainIds', type: 'uint256[]' },
+            { name: 'slugList', type: 'string[]' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'mapChain',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'chainId', type: 'uint256' },
+            { name: 'slug', type: 'string' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'upgradeToAndCall',
+        type: 'function',
+        stateMutability: 'payable',
+        inputs: [
+            { name: 'newImplementation', type: 'address' },
+            { name: 'data', type: 'bytes' },
+        ],
+        outputs: [],
+    },
+    {
+        name: 'owner',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'address' }],
+    },
+
+    // ========== By Slug ==========
+    {
+        name: 'getIconBySlug',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slug', type: 'string' }],
+        outputs: [{ name: '', type: 'bytes' }],
+    },
+    {
+        name: 'getIcon',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+        outputs: [{ name: '', type: 'bytes' }],
+    },
+
+    // ========== Versioning ==========
+    {
+        name: 'getIconVersion',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'slugHash', type: 'bytes32' },
+            { name: 'version', type: 'uint32' },
+        ],
+        outputs: [{ name: '', type: 'bytes' }],
+    },
+    {
+        name: 'getCurrentVersion',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+        outputs: [{ name: '', type: 'uint32' }],
+    },
+    {
+        name: 'getIconInfo',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+        outputs: [
+            { name: 'pointer', type: 'address' },
+            { name: 'width', type: 'uint32' },
+            { name: 'height', type: 'uint32' },
+            { name: 'version', type: 'uint32' },
+        ],
+    },
+
+    // ========== By Token ==========
+    {
+        name: 'getIconByToken',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'bytes' }],
+    },
+    {
+        name: 'hasTokenIcon',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'bool' }],
+    },
+
+    // ========== By Chain ==========
+    {
+        name: 'getChainIcon',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'chainId', type: 'uint256' }],
+        outputs: [{ name: '', type: 'bytes' }],
+    },
+
+    // ========== Data URI ==========
+    {
+        name: 'getIconDataURI',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+        outputs: [{ name: '', type: 'string' }],
+    },
+    {
+        name: 'getTokenIconDataURI',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'string' }],
+    },
+
+    // ========== Batch ==========
+    {
+        name: 'batchGetIcons',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHashes', type: 'bytes32[]' }],
+        outputs: [{ name: 'result', type: 'bytes[]' }],
+    },
+    {
+        name: 'batchGetTokenIcons',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'tokens', type: 'address[]' },
+            { name: 'chainIds', type: 'uint256[]' },
+        ],
+        outputs: [{ name: 'result', type: 'bytes[]' }],
+    },
+
+    // ========== Enumeration ==========
+    {
+        name: 'totalIcons',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint256' }],
+    },
+    {
+        name: 'getSlugsPaginated',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'offset', type: 'uint256' },
+            { name: 'limit', type: 'uint256' },
+        ],
+        outputs: [{ name: 'result', type: 'bytes32[]' }],
+    },
+
+    // ========== Public Storage ==========
+    {
+        name: 'icons',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'slugHash', type: 'bytes32' }],
+        outputs: [
+            { name: 'pointer', type: 'address' },
+            { name: 'width', type: 'uint32' },
+            { name: 'height', type: 'uint32' },
+            { name: 'version', type: 'uint32' },
+        ],
+    },
+    {
+        name: 'tokenToIcon',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'token', type: 'address' },
+            { name: 'chainId', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'bytes32' }],
+    },
+    {
+        name: 'chainToIcon',
+        type: 'function',
+        stateMutability: 'view',
+        inputs: [{ name: 'chainId', type: 'uint256' }],
+        outputs: [{ name: '', type: 'bytes32' }],
+    },
+] as const;
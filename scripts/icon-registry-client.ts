@@ -0,0 +1,176 @@
+/**
+ * IconRegistry Client
+ *
+ * Typed viem client for the IconRegistry proxy. Exposes every read in
+ * IIconRegistry.sol (plus enumeration and the public storage getters) so that
+ * scripts and front-ends share one ABI instead of copy-pasting fragments.
+ *
+ * Usage:
+ *   import { createIconRegistryClient } from './icon-registry-client';
+ *   const registry = createIconRegistryClient({ rpcUrl: 'https://eth.drpc.org' });
+ *   const png = await registry.getIconBySlug('protocols/uniswap');
+ */
+
+import { createPublicClient, http, keccak256, toHex, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { toRegistryError } from './registry-errors';
+
+export { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as const;
+export const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000' as const;
+
+/** Icon metadata as stored in the registry (see IconRegistry.Icon) */
+export interface IconInfo {
+    pointer: `0x${string}`;
+    width: number;
+    height: number;
+    version: number;
+}
+
+export interface IconRegistryClientConfig {
+    rpcUrl?: string;
+    address?: `0x${string}`;
+    publicClient?: PublicClient;
+}
+
+export interface IconRegistryClient {
+    address: `0x${string}`;
+    publicClient: PublicClient;
+
+    getIconBySlug(slug: string): Promise<`0x${string}`>;
+    getIcon(slugHash: `0x${string}`): Promise<`0x${string}`>;
+    getIconVersion(slugHash: `0x${string}`, version: number): Promise<`0x${string}`>;
+    getCurrentVersion(slugHash: `0x${string}`): Promise<number>;
+    getIconInfo(slugHash: `0x${string}`): Promise<IconInfo>;
+    getIconByToken(token: `0x${string}`, chainId: number | bigint): Promise<`0x${string}`>;
+    hasTokenIcon(token: `0x${string}`, chainId: number | bigint): Promise<boolean>;
+    getChainIcon(chainId: number | bigint): Promise<`0x${string}`>;
+    getIconDataURI(slugHash: `0x${string}`): Promise<string>;
+    getTokenIconDataURI(token: `0x${string}`, chainId: number | bigint): Promise<string>;
+    batchGetIcons(slugHashes: readonly `0x${string}`[]): Promise<readonly `0x${string}`[]>;
+    batchGetTokenIcons(
+        tokens: readonly `0x${string}`[],
+        chainIds: readonly (number | bigint)[]
+    ): Promise<readonly `0x${string}`[]>;
+    totalIcons(): Promise<bigint>;
+    getSlugsPaginated(offset: number | bigint, limit: number | bigint): Promise<readonly `0x${string}`[]>;
+
+    /** Raw `icons(slugHash)` storage read; pointer is the zero address when missing */
+    icons(slugHash: `0x${string}`): Promise<IconInfo>;
+    tokenToIcon(token: `0x${string}`, chainId: number | bigint): Promise<`0x${string}`>;
+    chainToIcon(chainId: number | bigint): Promise<`0x${string}`>;
+    owner(): Promise<`0x${string}`>;
+
+    /** True if an icon record exists for the slug hash (no revert on missing) */
+    hasIcon(slugHash: `0x${string}`): Promise<boolean>;
+    /** Page through getSlugsPaginated and return every registered slug hash (lowercased) */
+    getAllSlugHashes(pageSize?: number): Promise<Set<string>>;
+}
+
+export function slugToHash(slug: string): `0x${string}` {
+    return keccak256(toHex(slug));
+}
+
+export function createIconRegistryClient(config: IconRegistryClientConfig = {}): IconRegistryClient {
+    const address = config.address || PROXY_ADDRESS;
+    const publicClient = config.publicClient || createPublicClient({
+        chain: mainnet,
+        transport: http(config.rpcUrl || process.env.RPC_URL || 'https://eth.drpc.org'),
+    }) as PublicClient;
+
+    const contract = { address, abi: ICON_REGISTRY_ABI } as const;
+
+    // Rethrow contract reverts as typed errors (IconNotFoundError, ...)
+    const decoded = <T>(read: Promise<T>): Promise<T> =>
+        read.catch(err => {
+            throw toRegistryError(err);
+        });
+
+    const toIconInfo = ([pointer, width, height, version]: readonly [`0x${string}`, number, number, number]): IconInfo => ({
+        pointer,
+        width,
+        height,
+        version,
+    });
+
+    const client: IconRegistryClient = {
+        address,
+        publicClient,
+
+        getIconBySlug: (slug) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getIconBySlug', args: [slug] })),
+        getIcon: (slugHash) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getIcon', args: [slugHash] })),
+        getIconVersion: (slugHash, version) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getIconVersion', args: [slugHash, version] })),
+        getCurrentVersion: (slugHash) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getCurrentVersion', args: [slugHash] })),
+        getIconInfo: async (slugHash) =>
+            toIconInfo(await decoded(publicClient.readContract({ ...contract, functionName: 'getIconInfo', args: [slugHash] }))),
+        getIconByToken: (token, chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getIconByToken', args: [token, BigInt(chainId)] })),
+        hasTokenIcon: (token, chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'hasTokenIcon', args: [token, BigInt(chainId)] })),
+        getChainIcon: (chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getChainIcon', args: [BigInt(chainId)] })),
+        getIconDataURI: (slugHash) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getIconDataURI', args: [slugHash] })),
+        getTokenIconDataURI: (token, chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'getTokenIconDataURI', args: [token, BigInt(chainId)] })),
+        batchGetIcons: (slugHashes) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'batchGetIcons', args: [slugHashes] })),
+        batchGetTokenIcons: (tokens, chainIds) =>
+            decoded(publicClient.readContract({
+                ...contract,
+                functionName: 'batchGetTokenIcons',
+                args: [tokens, chainIds.map(id => BigInt(id))],
+            })),
+        totalIcons: () =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'totalIcons' })),
+        getSlugsPaginated: (offset, limit) =>
+            decoded(publicClient.readContract({
+                ...contract,
+                functionName: 'getSlugsPaginated',
+                args: [BigInt(offset), BigInt(limit)],
+            })),
+
+        icons: async (slugHash) =>
+            toIconInfo(await decoded(publicClient.readContract({ ...contract, functionName: 'icons', args: [slugHash] }))),
+        tokenToIcon: (token, chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'tokenToIcon', args: [token, BigInt(chainId)] })),
+        chainToIcon: (chainId) =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'chainToIcon', args: [BigInt(chainId)] })),
+        owner: () =>
+            decoded(publicClient.readContract({ ...contract, functionName: 'owner' })),
+
+        hasIcon: async (slugHash) => (await client.icons(slugHash)).pointer !== ZERO_ADDRESS,
+
+        getAllSlugHashes: async (pageSize = 100) => {
+            const total = await client.totalIcons();
+            const hashes = new Set<string>();
+            for (let offset = 0n; offset < total; offset += BigInt(pageSize)) {
+                const page = await client.getSlugsPaginated(offset, pageSize);
+                page.forEach(h => hashes.add(h.toLowerCase()));
+            }
+            return hashes;
+        },
+    };
+
+    return client;
+}
+
+// CLI usage
+if (require.main === module) {
+    (async () => {
+        try {
+            const registry = createIconRegistryClient();
+            const total = await registry.totalIcons();
+            console.log(`IconRegistry at ${registry.address}: ${total} icons`);
+        } catch (err) {
+            console.error('Failed to query IconRegistry:', err);
+            process.exit(1);
+        }
+    })();
+}
@@ -0,0 +1,288 @@
+/**
+ * Icon Search
+ *
+ * Prebuilt fuzzy search over the manifest, so integrators don't have to scan
+ * 10k manifest entries for every keystroke. generate-manifest.ts writes the index
+ * to docs/search-index.json with buildSearchIndex(); clients load it with
+ * createIconSearch(). The module has no dependencies and runs in browsers.
+ *
+ * Index format (version 1):
+ *   icons     [slug, name] pairs; an icon's ID is its position
+ *   terms     Sorted search terms: name and slug words, the compact name
+ *             ("uniswapv3"), acronyms and mapped token symbols
+ *   postings  postings[i] lists the IDs of icons with terms[i]
+ *   mapped    IDs of icons with chain or token mappings (ranked a little higher)
+ *
+ * Each query word must match a term of the icon, exactly, as a prefix ("uni" →
+ * uniswap), or with a typo (one edit from 4 letters, two from 8, transpositions
+ * count as one). "univ3" is read as "uni v3". Matches on the first word of an
+ * icon's name count most, so "uni" finds Uniswap before G Uni; among first words
+ * a prefix completes to, the one more icons are named after wins (Uniswap V2,
+ * Uniswap Labs, ... over Unit).
+ *
+ * Aliases of one icon (icons in the same group, e.g. chains/rsz_arbitrum and
+ * chains/rszarbitrum) are indexed once.
+ *
+ * Usage:
+ *   import { createIconSearch } from './icon-search';
+ *   const index = await fetch('https://igor53627.github.io/iconregistry.eth/search-index.json').then(r => r.json());
+ *   const search = createIconSearch(index);
+ *   search.search('univ3');  // [{ slug: 'protocols/uniswap-v3', name: 'Uniswap V3', category: 'protocols', score: ... }, ...]
+ */
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export interface SearchIndex {
+    version: number;
+    generatedAt: string;
+    icons: Array<[slug: string, name: string]>;
+    terms: string[];
+    postings: number[][];
+    mapped: number[];
+}
+
+export interface SearchableIcon {
+    slug: string;
+    name: string;
+    /** Has chain or token mappings */
+    mapped?: boolean;
+    /** Symbols of tokens mapped to the icon, e.g. "USDC" */
+    symbols?: string[];
+    /** Icons with the same group are aliases; the one whose slug is the group, or else the first, is indexed */
+    group?: string;
+}
+
+export interface SearchResult {
+    slug: string;
+    name: string;
+    category: string;
+    score: number;
+}
+
+export interface SearchOptions {
+    /** Maximum results (default: 10) */
+    limit?: number;
+    /** Only icons in this category, e.g. "chains" */
+    category?: string;
+}
+
+export interface IconSearch {
+    search(query: string, options?: SearchOptions): SearchResult[];
+}
+
+/** Lowercase ASCII words; a version suffix is split off ("univ3" → "uni", "v3") */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/([a-z])(v\d+)\b/g, '$1 $2')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+/** Search terms for one icon */
+function iconTerms(icon: SearchableIcon): string[] {
+    const slugName = icon.slug.split('/').pop()!.replace(/^rsz[-_]?/i, '');
+    const words = tokenize(icon.name);
+    const terms = new Set([...words, ...tokenize(slugName)]);
+
+    if (words.length > 1) {
+        terms.add(words.join(''));
+        terms.add(words.map(w => w[0]).join(''));
+    }
+    for (const symbol of icon.symbols ?? []) tokenize(symbol).forEach(t => terms.add(t));
+    return [...terms];
+}
+
+/** One icon per group, with the mappings and symbols of its aliases */
+function collapseAliases(icons: SearchableIcon[]): SearchableIcon[] {
+    const byGroup = new Map<string, SearchableIcon>();
+    for (const icon of icons) {
+        const group = icon.group ?? icon.slug;
+        const kept = byGroup.get(group);
+        if (!kept) {
+            byGroup.set(group, icon);
+            continue;
+        }
+        byGroup.set(group, {
+            ...(icon.slug === group ? icon : kept),
+            mapped: kept.mapped || icon.mapped,
+            symbols: [...(kept.symbols ?? []), ...(icon.symbols ?? [])],
+        });
+    }
+    return [...byGroup.values()];
+}
+
+export function buildSearchIndex(allIcons: SearchableIcon[], generatedAt = new Date().toISOString()): SearchIndex {
+    const icons = collapseAliases(allIcons);
+    const postingsByTerm = new Map<string, number[]>();
+    icons.forEach((icon, id) => {
+        for (const term of iconTerms(icon)) {
+            const ids = postingsByTerm.get(term);
+            if (ids) ids.push(id);
+            else postingsByTerm.set(term, [id]);
+        }
+    });
+
+    // Plain code-unit order, so clients can binary search without locale rules
+    const terms = [...postingsByTerm.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return {
+        version: SEARCH_INDEX_VERSION,
+        generatedAt,
+        icons: icons.map(icon => [icon.slug, icon.name]),
+        terms,
+        postings: terms.map(term => postingsByTerm.get(term)!),
+        mapped: icons.flatMap((icon, id) => (icon.mapped ? [id] : [])),
+    };
+}
+
+/** Optimal string alignment distance, or maxEdits + 1 once it is exceeded */
+function editDistance(a: string, b: string, maxEdits: number): number {
+    if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1;
+
+    let prevPrev: number[] = [];
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                curr[j] = Math.min(curr[j], prevPrev[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > maxEdits) return maxEdits + 1;
+        prevPrev = prev;
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+function trigrams(term: string): string[] {
+    const padded = `^${term}$`;
+    const grams: string[] = [];
+    for (let i = 0; i + 3 <= padded.length; i++) grams.push(padded.slice(i, i + 3));
+    return grams;
+}
+
+export function createIconSearch(index: SearchIndex): IconSearch {
+    if (index.version !== SEARCH_INDEX_VERSION) {
+        throw new Error(`Unsupported search index version ${index.version} (expected ${SEARCH_INDEX_VERSION})`);
+    }
+    const mapped = new Set(index.mapped);
+
+    // Name words after the first, which count for less, and how many icons are named after each first word
+    const laterWords: string[][] = [];
+    const namedAfter = new Map<string, number>();
+    for (const [, name] of index.icons) {
+        const [first, ...rest] = tokenize(name);
+        laterWords.push(rest.filter(word => word !== first));
+        if (first) namedAfter.set(first, (namedAfter.get(first) ?? 0) + 1);
+    }
+
+    // Trigram → term positions, built on the first query that needs typo tolerance
+    let termsByTrigram: Map<string, number[]> | undefined;
+    const typoCandidates = (word: string): number[] => {
+        if (!termsByTrigram) {
+            termsByTrigram = new Map();
+            index.terms.forEach((term, i) => {
+                for (const gram of new Set(trigrams(term))) {
+                    const list = termsByTrigram!.get(gram);
+                    if (list) list.push(i);
+                    else termsByTrigram!.set(gram, [i]);
+                }
+            });
+        }
+        const candidates = new Set<number>();
+        for (const gram of trigrams(word)) termsByTrigram.get(gram)?.forEach(i => candidates.add(i));
+        return [...candidates];
+    };
+
+    /** Best score per icon for one query word */
+    const matchWord = (word: string): Map<number, number> => {
+        const scores = new Map<number, number>();
+        // `laterScore` for icons where the term is only a later word of the name ("uni" in G Uni)
+        const offer = (termIndex: number, score: number, laterScore = score) => {
+            const term = index.terms[termIndex];
+            for (const id of index.postings[termIndex]) {
+                const s = laterWords[id].includes(term) ? laterScore : score;
+                if ((scores.get(id) ?? 0) < s) scores.set(id, s);
+            }
+        };
+
+        // Exact and prefix matches: the terms are sorted, so they are one contiguous run
+        let lo = 0;
+        let hi = index.terms.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (index.terms[mid] < word) lo = mid + 1;
+            else hi = mid;
+        }
+        let end = lo;
+        while (end < index.terms.length && index.terms[end].startsWith(word)) end++;
+        let mostNamedAfter = 1;
+        for (let i = lo; i < end; i++) mostNamedAfter = Math.max(mostNamedAfter, namedAfter.get(index.terms[i]) ?? 0);
+
+        for (let i = lo; i < end; i++) {
+            const term = index.terms[i];
+            if (term === word) {
+                offer(i, 1, 0.7);
+            } else {
+                const share = (namedAfter.get(term) ?? 0) / mostNamedAfter;
+                offer(i, 0.7 + 0.2 * share, 0.5 + 0.1 * (word.length / term.length));
+            }
+        }
+
+        const maxEdits = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+        if (maxEdits > 0) {
+            for (const i of typoCandidates(word)) {
+                const distance = editDistance(word, index.terms[i], maxEdits);
+                if (distance > 0 && distance <= maxEdits) offer(i, 0.55 - 0.1 * distance);
+            }
+        }
+        return scores;
+    };
+
+    return {
+        search: (query, options = {}) => {
+            const words = tokenize(query);
+            if (words.length === 0) return [];
+
+            // Every word has to match; scores add up
+            let totals: Map<number, number> | undefined;
+            for (const word of words) {
+                const scores = matchWord(word);
+                if (!totals) {
+                    totals = scores;
+                    continue;
+                }
+                const next = new Map<number, number>();
+                for (const [id, score] of scores) {
+                    const total = totals.get(id);
+                    if (total !== undefined) next.set(id, total + score);
+                }
+                totals = next;
+            }
+
+            const compactQuery = words.join('');
+            const results: SearchResult[] = [];
+            for (const [id, total] of totals!) {
+                const [slug, name] = index.icons[id];
+                const category = slug.split('/')[0];
+                if (options.category && category !== options.category) continue;
+
+                let score = total / words.length;
+                if (tokenize(name).join('') === compactQuery) score += 0.5;
+                if (mapped.has(id)) score += 0.05;
+                results.push({ slug, name, category, score: Math.round(score * 1000) / 1000 });
+            }
+
+            return results
+                .sort((a, b) => b.score - a.score || a.slug.length - b.slug.length || a.slug.localeCompare(b.slug))
+                .slice(0, options.limit ?? 10);
+        },
+    };
+}
@@ -0,0 +1,195 @@
+#!/usr/bin/env npx tsx
+/**
+ * Import Token Mappings from Token Lists
+ *
+ * Reads Uniswap-standard token lists (https://tokenlists.org) from local files,
+ * matches each token's name and symbol to protocols/* and pegged/* icons in
+ * icons-64/ (see icon-matcher.ts), and merges the matches into
+ * docs/token-mappings.json for every chain the lists cover. Addresses on other
+ * chains listed under extensions.bridgeInfo are mapped to the same icon.
+ *
+ *   { "name": "Uniswap Labs Default", "tokens": [
+ *     { "chainId": 1, "address": "0x1f98...f984", "symbol": "UNI", "name": "Uniswap",
+ *       "extensions": { "bridgeInfo": { "10": { "tokenAddress": "0x6fd9...a5f0" } } } } ] }
+ *
+ * Matches below REVIEW_CONFIDENCE are queued in docs/pending-token-mappings.json
+ * with their candidate icons instead (see token-mappings.ts). Existing entries in
+ * docs/token-mappings.json are kept; tokens they map to a different icon are
+ * reported as conflicts. Deploy new mappings with setup-token-mappings.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/import-token-list.ts uniswap-default.tokenlist.json [more lists...]
+ *   DRY_RUN=true npx tsx scripts/import-token-list.ts list.json   # Preview only
+ *
+ * Environment:
+ *   DRY_RUN - If "true", don't write docs/token-mappings.json
+ *   MIN_CONFIDENCE - Don't queue matches below this (default: 0.6)
+ *   REVIEW_CONFIDENCE - Matches below this need review (default: 0.9)
+ */
+
+import * as fs from 'fs';
+import { isAddress } from 'viem';
+import { createIconMatcher, type IconMatch, type MatchTerm } from './icon-matcher';
+import { cleanSlug, localIconSlugs } from './registry-state';
+import {
+    PENDING_TOKEN_MAPPINGS_FILE,
+    REVIEW_CONFIDENCE,
+    TOKEN_MAPPINGS_FILE,
+    loadTokenMappingsFile,
+    mergeTokenMappings,
+    queuePendingTokenMappings,
+    saveTokenMappingsFile,
+    splitByConfidence,
+    tokenMappingKey,
+    type PendingTokenMapping,
+} from './token-mappings';
+
+const DRY_RUN = process.env.DRY_RUN === 'true';
+const MIN_CONFIDENCE = parseFloat(process.env.MIN_CONFIDENCE || '0.6');
+
+const ICON_CATEGORIES = ['pegged', 'protocols'];
+const STOP_WORDS = ['token', 'coin', 'governance', 'protocol', 'finance', 'dao'];
+// Symbols are short and reused across projects, so they count for less than names
+const SYMBOL_WEIGHT = 0.8;
+
+interface TokenListToken {
+    chainId: number;
+    address: string;
+    name: string;
+    symbol: string;
+    decimals?: number;
+    logoURI?: string;
+    extensions?: {
+        bridgeInfo?: Record<string, { tokenAddress?: string }>;
+    };
+}
+
+interface TokenList {
+    name?: string;
+    tokens: TokenListToken[];
+}
+
+function loadTokenList(file: string): TokenList {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!Array.isArray(data?.tokens)) throw new Error(`${file}: not a token list (no "tokens" array)`);
+    return data;
+}
+
+/** Token addresses by chain, including bridged deployments */
+function tokenAddresses(token: TokenListToken): Array<{ chainId: number; token: string }> {
+    const addresses = [{ chainId: token.chainId, token: token.address }];
+    for (const [chainId, info] of Object.entries(token.extensions?.bridgeInfo ?? {})) {
+        if (info?.tokenAddress) addresses.push({ chainId: Number(chainId), token: info.tokenAddress });
+    }
+    return addresses
+        .filter(a => Number.isSafeInteger(a.chainId) && a.chainId > 0 && isAddress(a.token, { strict: false }))
+        .map(a => ({ chainId: a.chainId, token: a.token.toLowerCase() }));
+}
+
+/** "USD Coin (PoS)" → "USD Coin": bridge suffixes don't help matching */
+function baseName(name: string): string {
+    return name.replace(/\s*\([^)]*\)/g, '').trim();
+}
+
+async function main() {
+    const files = process.argv.slice(2);
+    if (files.length === 0) throw new Error('Usage: import-token-list.ts <tokenlist.json> [more lists...]');
+
+    console.log('=== Import Token Mappings from Token Lists ===\n');
+    console.log(`Mode: ${DRY_RUN ? 'DRY RUN' : 'WRITE'}`);
+    console.log(`Confidence: queue ≥ ${MIN_CONFIDENCE}, map ≥ ${REVIEW_CONFIDENCE}\n`);
+
+    const sources = new Map(ICON_CATEGORIES.flatMap(category => [...localIconSlugs(category)]));
+    const slugs = [...sources.keys()].filter(slug => cleanSlug(slug) === slug);
+    const matcher = createIconMatcher(slugs, { stopWords: STOP_WORDS, sources });
+    console.log(`Icons: ${slugs.length} ${ICON_CATEGORIES.map(c => `${c}/*`).join(', ')} slugs`);
+
+    const imported = new Map<string, PendingTokenMapping>();
+    const unmatched = new Map<string, string>();
+    // Lists repeat the same token on many chains; match each name/symbol once
+    const matches = new Map<string, IconMatch[]>();
+    let tokenCount = 0;
+
+    for (const file of files) {
+        const list = loadTokenList(file);
+        console.log(`List: ${list.name ?? file} (${list.tokens.length} tokens)`);
+
+        for (const token of list.tokens) {
+            if (typeof token.name !== 'string' || typeof token.symbol !== 'string') continue;
+            tokenCount++;
+
+            const matchKey = `${token.name}\u0000${token.symbol}`;
+            if (!matches.has(matchKey)) {
+                const terms: MatchTerm[] = [{ term: baseName(token.name) }, { term: token.symbol, weight: SYMBOL_WEIGHT }];
+                matches.set(matchKey, matcher.match(terms));
+            }
+            const candidates = matches.get(matchKey)!;
+            const match = candidates[0];
+            if (!match || match.confidence < MIN_CONFIDENCE) {
+                unmatched.set(matchKey, `${token.name} (${token.symbol})`);
+                continue;
+            }
+
+            for (const address of tokenAddresses(token)) {
+                const key = tokenMappingKey(address);
+                if (imported.has(key)) continue;
+                imported.set(key, {
+                    token: address.token,
+                    chainId: address.chainId,
+                    slug: match.slug,
+                    name: token.name,
+                    symbol: token.symbol,
+                    // Bridged deployments don't always share the decimals (USDC on BSC has 18)
+                    decimals: address.chainId === token.chainId && Number.isInteger(token.decimals) ? token.decimals : undefined,
+                    method: match.method,
+                    confidence: match.confidence,
+                    candidates: candidates.map(({ slug, confidence, method }) => ({ slug, confidence, method })),
+                });
+            }
+        }
+    }
+
+    const split = splitByConfidence([...imported.values()]);
+    const file = loadTokenMappingsFile();
+    const { mappings, added, conflicts } = mergeTokenMappings(file.mappings, split.mappings);
+
+    console.log(`\nTokens: ${tokenCount}`);
+    console.log(`Matched: ${imported.size} token addresses`);
+    console.log(`Unmatched: ${unmatched.size} distinct tokens`);
+    console.log(`New mappings: ${added.length}`);
+    console.log(`Need review: ${split.pending.length} token addresses`);
+    console.log(`Conflicts with existing mappings: ${conflicts.length}`);
+    conflicts.slice(0, 10).forEach(({ existing, incoming }) => {
+        console.log(`  ${existing.token} (chain ${existing.chainId}): ${existing.slug} ≠ ${incoming.slug}`);
+    });
+
+    const byChain = new Map<number, number>();
+    added.forEach(m => byChain.set(m.chainId, (byChain.get(m.chainId) || 0) + 1));
+    console.log('\nNew mappings by chain:');
+    [...byChain.entries()].sort((a, b) => b[1] - a[1]).slice(0, 15).forEach(([chainId, count]) => {
+        console.log(`  Chain ${chainId}: ${count} tokens`);
+    });
+
+    const bySlug = new Map<string, number>();
+    added.forEach(m => bySlug.set(m.slug, (bySlug.get(m.slug) || 0) + 1));
+    console.log('\nTop icons:');
+    [...bySlug.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10).forEach(([slug, count]) => {
+        console.log(`  ${slug}: ${count} addresses`);
+    });
+
+    if (DRY_RUN) {
+        console.log('\nDry run: docs/token-mappings.json not written');
+        return;
+    }
+
+    saveTokenMappingsFile({ ...file, mappings });
+    console.log(`\nWrote ${mappings.length} mappings to ${TOKEN_MAPPINGS_FILE}`);
+    const queued = queuePendingTokenMappings(split.pending, mappings);
+    if (queued > 0) console.log(`Queued ${queued} for review in ${PENDING_TOKEN_MAPPINGS_FILE}`);
+    console.log('Deploy with: npx tsx scripts/setup-token-mappings.ts');
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
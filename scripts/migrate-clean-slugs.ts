@@ -8,56 +8,48 @@
  * Usage:
  *   DRY_RUN=true npx tsx scripts/migrate-clean-slugs.ts   # Preview changes
  *   npx tsx scripts/migrate-clean-slugs.ts                 # Deploy to mainnet
+ *   SIMULATE=anvil ANVIL_FORK_URL=<rpc> npx tsx scripts/migrate-clean-slugs.ts  # Run on a local fork
  * 
  * Options:
  *   DRY_RUN=true        - Preview without deploying
- *   BATCH_SIZE=20       - Icons per transaction (default: 20)
+ *   GAS_CEILING         - Max gas per transaction; batches are packed to fit (default: 15000000)
+ *   MAX_CALLDATA_BYTES  - Max calldata per transaction (default: 120000)
  *   MAX_GAS_PRICE_GWEI  - Max gas price to wait for (default: 0.05)
- *   RESUME_FROM=N       - Resume from batch N
  *   CATEGORY=chains     - Only migrate specific category (chains, protocols, assets)
+ *   SIMULATE=anvil      - Execute against a local anvil node as the impersonated owner
+ *   SIGNER              - turnkey | keystore | private-key | unsigned | safe (default: turnkey; see signer.ts)
+ *
+ * Re-running resumes from journals/migrate-clean-slugs.json (override with JOURNAL_FILE).
  */
 
-import { createPublicClient, http, encodeFunctionData, parseGwei, formatGwei, keccak256, toHex } from 'viem';
+import { createPublicClient, http, parseGwei, formatGwei } from 'viem';
 import { mainnet } from 'viem/chains';
-import { createTurnkeySigner } from './turnkey-signer';
+import { createSigner, describeSigner } from './signer';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { createIconRegistryClient, slugToHash } from './icon-registry-client';
+import { openJournal, describeReconcile } from './deploy-journal';
+import {
+    batchPackerEnv,
+    DEFAULT_GAS_CEILING,
+    encodeIconBatch,
+    estimateBatchGas,
+    packIconBatches,
+    splitUntilEstimable,
+    TX_BASE_GAS,
+    type IconUpload,
+} from './batch-packer';
+import { toRegistryError } from './registry-errors';
 import * as fs from 'fs';
 import * as path from 'path';
 
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
 const DRY_RUN = process.env.DRY_RUN === 'true';
-const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '20');
 const MAX_GAS_PRICE_GWEI = parseFloat(process.env.MAX_GAS_PRICE_GWEI || '0.05');
-const RESUME_FROM = parseInt(process.env.RESUME_FROM || '0');
 const CATEGORY = process.env.CATEGORY || '';
 const RPC_URL = process.env.RPC_URL || 'https://ethereum-rpc.publicnode.com';
 const FALLBACK_RPC_URL = 'https://eth.drpc.org';
 
-const ICON_REGISTRY_ABI = [
-    {
-        name: 'setIconsBatch',
-        type: 'function',
-        inputs: [
-            { name: 'slugs', type: 'string[]' },
-            { name: 'datas', type: 'bytes[]' },
-            { name: 'widths', type: 'uint32[]' },
-            { name: 'heights', type: 'uint32[]' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'icons',
-        type: 'function',
-        inputs: [{ name: 'slugHash', type: 'bytes32' }],
-        outputs: [
-            { name: 'pointer', type: 'address' },
-            { name: 'size', type: 'uint32' },
-            { name: 'width', type: 'uint32' },
-            { name: 'height', type: 'uint32' },
-        ],
-    },
-] as const;
-
 interface MigrationItem {
     oldSlug: string;
     newSlug: string;
@@ -114,21 +106,28 @@ async function createRpcClient(primary: string, fallback: string) {
 
 async function main() {
     console.log('=== Icon Slug Migration (rsz → clean) ===\n');
-    console.log(`Mode: ${DRY_RUN ? 'DRY RUN (preview only)' : 'LIVE DEPLOYMENT'}`);
-    console.log(`Batch size: ${BATCH_SIZE}`);
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+    console.log(`Mode: ${sim ? 'SIMULATE (anvil)' : DRY_RUN ? 'DRY RUN (preview only)' : 'LIVE DEPLOYMENT'}`);
+    console.log(`Gas ceiling: ${(batchPackerEnv().gasCeiling ?? DEFAULT_GAS_CEILING).toLocaleString()} per tx`);
     console.log(`Max gas: ${MAX_GAS_PRICE_GWEI} gwei`);
     console.log(`RPC: ${RPC_URL} (fallback: ${FALLBACK_RPC_URL})`);
     if (CATEGORY) console.log(`Category filter: ${CATEGORY}`);
     console.log('');
 
-    const publicClient = await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
+    const publicClient = sim?.publicClient ?? await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
+
+    // Reconcile batches left over from a previous run
+    const journal = openJournal('migrate-clean-slugs', sim?.journalFile('migrate-clean-slugs'));
+    console.log(`Journal: ${journal.file}`);
+    const reconciled = await journal.reconcile(publicClient);
+    console.log(`Journal reconciled: ${describeReconcile(reconciled)}\n`);
 
     // Find all local icons
     const pngs = findAllPngs(ICONS_DIR);
     console.log(`Found ${pngs.length} local icons`);
 
     // Build migration list: icons where current slug has rsz prefix
-    const migrations: MigrationItem[] = [];
+    let migrations: MigrationItem[] = [];
 
     for (const filePath of pngs) {
         const currentSlug = pathToSlug(filePath);
@@ -141,7 +140,7 @@ async function main() {
         // Only migrate if slug would change (has rsz prefix)
         if (currentSlug !== cleanedSlug) {
             // Check if clean slug already exists on-chain
-            const cleanHash = keccak256(toHex(cleanedSlug));
+            const cleanHash = slugToHash(cleanedSlug);
             let cleanSlugExists = false;
             
             try {
@@ -166,10 +165,17 @@ async function main() {
         }
     }
 
+    const journaled = migrations.length;
+    migrations = journal.remaining(migrations, m => m.newSlug);
+    if (journaled !== migrations.length) {
+        console.log(`Skipping ${journaled - migrations.length} icons already confirmed or in flight per journal`);
+    }
+
     console.log(`Need to migrate: ${migrations.length} icons\n`);
 
     if (migrations.length === 0) {
         console.log('All icons already have clean slugs on-chain!');
+        await sim?.finish();
         return;
     }
 
@@ -183,122 +189,135 @@ async function main() {
     }
     console.log('');
 
-    if (DRY_RUN) {
-        // Estimate cost
-        const avgBytesPerIcon = 2500; // ~2.5KB average
-        const totalBytes = migrations.length * avgBytesPerIcon;
-        const estimatedGasPerByte = 68; // SSTORE2 cost
-        const totalGas = totalBytes * estimatedGasPerByte + migrations.length * 50000; // overhead per icon
-        const ethCost = (totalGas * MAX_GAS_PRICE_GWEI) / 1e9;
+    const packerConfig = batchPackerEnv();
+    const toUpload = (m: MigrationItem): IconUpload => ({
+        slug: m.newSlug,
+        data: fs.readFileSync(m.filePath),
+        width: 64,
+        height: 64,
+    });
+    const packed = packIconBatches(migrations, toUpload, packerConfig);
+
+    if (DRY_RUN && !sim) {
+        // Estimate cost from the packer's gas model
+        const totalGas = estimateBatchGas(migrations.map(toUpload)) + BigInt(packed.length - 1) * TX_BASE_GAS;
+        const ethCost = (Number(totalGas) * MAX_GAS_PRICE_GWEI) / 1e9;
 
         console.log('=== Cost Estimate ===');
         console.log(`Icons: ${migrations.length}`);
         console.log(`Est. gas: ${totalGas.toLocaleString()}`);
         console.log(`Est. cost: ~${ethCost.toFixed(4)} ETH at ${MAX_GAS_PRICE_GWEI} gwei`);
-        console.log(`Batches: ${Math.ceil(migrations.length / BATCH_SIZE)}`);
-        console.log('\nRun without DRY_RUN=true to deploy.');
+        console.log(`Batches: ${packed.length}`);
+        console.log('\nRun with SIMULATE=anvil for exact gas, or without DRY_RUN=true to deploy.');
         return;
     }
 
-    // Initialize Turnkey signer
-    console.log('Initializing Turnkey signer...');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer: ${address}\n`);
+    // Initialize the configured signer (or the impersonated owner when simulating)
+    console.log(sim ? 'Using impersonated owner...' : 'Initializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}\n`);
 
-    const totalBatches = Math.ceil(migrations.length / BATCH_SIZE);
     let successCount = 0;
     let failCount = 0;
     let totalGasUsed = 0n;
 
-    for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-        if (batchNum < RESUME_FROM) continue;
+    for (let batchNum = 0; batchNum < packed.length; batchNum++) {
+        console.log(`\n[Batch ${batchNum + 1}/${packed.length}] Preparing ${packed[batchNum].length} icons...`);
 
-        const startIdx = batchNum * BATCH_SIZE;
-        const batch = migrations.slice(startIdx, startIdx + BATCH_SIZE);
+        // Split batches that fail estimation or come in over the gas ceiling
+        const { batches, rejected } = await splitUntilEstimable(
+            packed[batchNum],
+            batch => publicClient.estimateGas({
+                account: address,
+                to: PROXY_ADDRESS,
+                data: encodeIconBatch(batch.map(toUpload)),
+            }),
+            packerConfig,
+            (size, reason) => console.log(`Splitting ${size} icons (${reason})`)
+        );
+        for (const { item, error } of rejected) {
+            console.error(`✗ ${item.newSlug} rejected: ${String(toRegistryError(error)).slice(0, 100)}`);
+            failCount++;
+        }
 
-        console.log(`\n[Batch ${batchNum + 1}/${totalBatches}] Preparing ${batch.length} icons...`);
+        for (const { items: batch, gas: gasEstimate } of batches) {
+            const uploads = batch.map(toUpload);
+            const batchBytes = uploads.reduce((sum, u) => sum + u.data.length, 0);
+            console.log(`Batch size: ${batch.length} icons, ${(batchBytes / 1024).toFixed(1)} KB`);
 
-        const slugs: string[] = [];
-        const hexDatas: `0x${string}`[] = [];
-        const widths: number[] = [];
-        const heights: number[] = [];
-        let batchBytes = 0;
+            const entry = journal.plan(batch.map(m => m.newSlug));
 
-        for (const item of batch) {
-            const data = fs.readFileSync(item.filePath);
-            slugs.push(item.newSlug);
-            hexDatas.push(`0x${data.toString('hex')}`);
-            widths.push(64);
-            heights.push(64);
-            batchBytes += data.length;
-        }
+            // Wait for acceptable gas price
+            const maxGasWei = parseGwei(MAX_GAS_PRICE_GWEI.toString());
+            let gasPrice: bigint;
 
-        console.log(`Batch size: ${(batchBytes / 1024).toFixed(1)} KB`);
+            while (true) {
+                gasPrice = await publicClient.getGasPrice();
+                if (gasPrice <= maxGasWei) break;
+                process.stdout.write(`\rGas: ${formatGwei(gasPrice)} gwei > ${MAX_GAS_PRICE_GWEI} gwei - waiting...    `);
+                await sleep(6000);
+            }
+            console.log(`Gas: ${formatGwei(gasPrice)} gwei ✓`);
 
-        // Wait for acceptable gas price
-        const maxGasWei = parseGwei(MAX_GAS_PRICE_GWEI.toString());
-        let gasPrice: bigint;
+            try {
+                const data = encodeIconBatch(uploads);
 
-        while (true) {
-            gasPrice = await publicClient.getGasPrice();
-            if (gasPrice <= maxGasWei) break;
-            process.stdout.write(`\rGas: ${formatGwei(gasPrice)} gwei > ${MAX_GAS_PRICE_GWEI} gwei - waiting...    `);
-            await sleep(6000);
-        }
-        console.log(`Gas: ${formatGwei(gasPrice)} gwei ✓`);
+                const nonce = await publicClient.getTransactionCount({ address });
+                const bufferedGasPrice = gasPrice + (gasPrice * 20n / 100n);
 
-        try {
-            const data = encodeFunctionData({
-                abi: ICON_REGISTRY_ABI,
-                functionName: 'setIconsBatch',
-                args: [slugs, hexDatas, widths, heights],
-            });
+                const txHash = await walletClient.sendTransaction({
+                    to: PROXY_ADDRESS,
+                    data,
+                    gas: gasEstimate + (gasEstimate * 10n / 100n),
+                    gasPrice: bufferedGasPrice,
+                    nonce,
+                });
 
-            const gasEstimate = await publicClient.estimateGas({
-                account: address,
-                to: PROXY_ADDRESS,
-                data,
-            });
+                // Exported, not broadcast: the entry stays planned and is discarded on the next run
+                if (signer.exportOnly) {
+                    successCount += batch.length;
+                    console.log(`Exported: ${txHash} (${batch.length} icons)`);
+                    continue;
+                }
 
-            const nonce = await publicClient.getTransactionCount({ address });
-            const bufferedGasPrice = gasPrice + (gasPrice * 20n / 100n);
+                journal.markSent(entry, { hash: txHash, from: address, nonce });
+                console.log(`Tx: ${txHash}`);
 
-            const txHash = await walletClient.sendTransaction({
-                to: PROXY_ADDRESS,
-                data,
-                gas: gasEstimate + (gasEstimate * 10n / 100n),
-                gasPrice: bufferedGasPrice,
-                nonce,
-            });
+                const receipt = await publicClient.waitForTransactionReceipt({
+                    hash: txHash,
+                    timeout: 300_000, // 5 minutes
+                });
 
-            console.log(`Tx: ${txHash}`);
+                journal.markConfirmed(entry, receipt);
+                if (receipt.status !== 'success') {
+                    throw new Error(`Transaction reverted: ${txHash}`);
+                }
 
-            const receipt = await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                timeout: 300_000, // 5 minutes
-            });
+                totalGasUsed += receipt.gasUsed;
+                successCount += batch.length;
 
-            totalGasUsed += receipt.gasUsed;
-            successCount += batch.length;
+                const progress = ((successCount + failCount) / migrations.length * 100).toFixed(1);
+                console.log(`[${progress}%] ✓ ${batch.length} icons, ${receipt.gasUsed.toLocaleString()} gas (est. ${gasEstimate.toLocaleString()})`);
 
-            const progress = ((startIdx + batch.length) / migrations.length * 100).toFixed(1);
-            console.log(`[${progress}%] ✓ ${batch.length} icons, ${receipt.gasUsed.toLocaleString()} gas`);
+                // Log what was migrated
+                batch.forEach(item => {
+                    console.log(`  ${item.oldSlug} → ${item.newSlug}`);
+                });
 
-            // Log what was migrated
-            batch.forEach(item => {
-                console.log(`  ${item.oldSlug} → ${item.newSlug}`);
-            });
+            } catch (err: any) {
+                console.error(`\n✗ Batch ${batchNum + 1} failed: ${err.message?.slice(0, 100)}`);
+                failCount += batch.length;
+                // A receipt timeout leaves the batch 'sent' so the next run reconciles it
+                if (entry.state === 'planned') journal.markFailed(entry, err.message ?? String(err));
 
-        } catch (err: any) {
-            console.error(`\n✗ Batch ${batchNum + 1} failed: ${err.message?.slice(0, 100)}`);
-            failCount += batch.length;
+                console.log('Re-run to retry; the journal skips batches that already landed.\n');
+                
+                // Don't exit on first batch failure - just continue to next batch
+            }
 
-            console.log(`Resume with: RESUME_FROM=${batchNum} npx tsx scripts/migrate-clean-slugs.ts\n`);
-            
-            // Don't exit on first batch failure - just continue to next batch
+            await sleep(500);
         }
-
-        await sleep(500);
     }
 
     // Summary
@@ -310,10 +329,21 @@ async function main() {
     console.log(`Gas used: ${Number(totalGasUsed).toLocaleString()}`);
     console.log(`Cost: ~${ethCost.toFixed(6)} ETH`);
 
-    if (successCount > 0) {
+    if (signer.exportOnly) {
+        console.log(`\nTransactions exported to ${signer.exportFile}`);
+    } else if (successCount > 0) {
         console.log('\nNext step: Update chain mappings to use clean slugs.');
         console.log('Run: npx tsx scripts/update-chain-mappings-clean.ts');
     }
+
+    if (sim) {
+        const registry = createIconRegistryClient({ publicClient });
+        let present = 0;
+        for (const m of migrations) {
+            if (await registry.hasIcon(slugToHash(m.newSlug))) present++;
+        }
+        await sim.finish({ 'Clean slugs on-chain': `${present}/${migrations.length}` });
+    }
 }
 
 main().catch(err => {
@@ -0,0 +1,272 @@
+#!/usr/bin/env npx tsx
+/**
+ * Offline Transaction Pipeline: plan, sign, broadcast
+ *
+ * Splits a deployment into three steps so signing can happen on an air-gapped
+ * machine and reviewers can diff the exact calldata before anything goes on-chain:
+ *
+ *   plan       Run a deploy script with SIGNER=unsigned; every transaction it would
+ *              send is written to a plan file with its nonce, gas limit and fee caps
+ *   sign       Sign every transaction in a plan with a signer backend (turnkey,
+ *              keystore, private-key); no RPC access is needed for keystores
+ *   broadcast  Submit the signed raw transactions in nonce order and track receipts;
+ *              re-running resumes and skips transactions that already landed
+ *
+ * Usage:
+ *   npx tsx scripts/offline-tx.ts plan scripts/setup-chain-mappings.ts plans/chain-mappings.json
+ *   npx tsx scripts/offline-tx.ts plan scripts/registry.ts plans/apply.json apply   # extra args go to the script
+ *   SIGNER=keystore SIGNER_KEYSTORE=owner.json npx tsx scripts/offline-tx.ts sign plans/chain-mappings.json
+ *   npx tsx scripts/offline-tx.ts broadcast plans/chain-mappings.signed.json
+ *
+ * The signed file defaults to <plan>.signed.json. Nonces and fee caps are fixed at
+ * plan time: if the owner sends anything else in between, or fees rise above the
+ * caps, re-plan.
+ *
+ * Environment:
+ *   RPC_URL - RPC for plan and broadcast (default: https://eth.drpc.org)
+ *   SIGNER  - Backend for `sign` (see signer.ts)
+ *   SIGNER_ADDRESS - Sender for `plan` (default: registry owner)
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { createPublicClient, http, keccak256, parseTransaction, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { createSigner, describeSigner, type UnsignedExport, type UnsignedTransaction } from './signer';
+
+const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+
+type SignedState = 'signed' | 'sent' | 'confirmed' | 'failed';
+
+interface SignedTransaction extends Omit<UnsignedTransaction, 'hash'> {
+    /** Hash of the unsigned payload in the plan, for cross-referencing */
+    planHash: `0x${string}`;
+    /** Signed raw transaction, accepted by eth_sendRawTransaction and `cast publish` */
+    raw: `0x${string}`;
+    hash: `0x${string}`;
+    state: SignedState;
+    receiptStatus?: 'success' | 'reverted';
+    blockNumber?: string;
+    gasUsed?: string;
+    error?: string;
+}
+
+interface SignedExport {
+    version: 1;
+    chainId: number;
+    from: `0x${string}`;
+    plan: string;
+    /** keccak256 of the plan file, so a signed file can be matched to the reviewed plan */
+    planDigest: `0x${string}`;
+    signedAt: string;
+    transactions: SignedTransaction[];
+}
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function readJson<T>(file: string): T {
+    if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+}
+
+function writeJson(file: string, data: unknown): void {
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2) + '\n');
+    fs.renameSync(tmp, file);
+}
+
+function plan(script: string, planFile: string, scriptArgs: string[]): void {
+    if (fs.existsSync(planFile)) {
+        throw new Error(`${planFile} already exists; plans are append-only, choose a new path`);
+    }
+
+    console.log(`Planning ${script} → ${planFile}\n`);
+    execFileSync('npx', ['tsx', script, ...scriptArgs], {
+        stdio: 'inherit',
+        env: { ...process.env, SIGNER: 'unsigned', SIGNER_EXPORT_FILE: planFile, RPC_URL },
+    });
+
+    if (!fs.existsSync(planFile)) {
+        console.log('\nNo transactions planned.');
+        return;
+    }
+    const data = readJson<UnsignedExport>(planFile);
+    console.log(`\nPlanned ${data.transactions.length} transactions from ${data.from} (chain ${data.chainId})`);
+    for (const tx of data.transactions) {
+        console.log(`  nonce ${tx.nonce}: ${tx.to ?? '(create)'} ${(tx.data.length - 2) / 2} bytes, gas ${tx.gas}, maxFee ${tx.maxFeePerGas ?? '?'}`);
+    }
+    console.log(`\nReview, then: npx tsx scripts/offline-tx.ts sign ${planFile}`);
+}
+
+async function sign(planFile: string, signedFile: string): Promise<void> {
+    const planJson = fs.readFileSync(planFile, 'utf-8');
+    const data = JSON.parse(planJson) as UnsignedExport;
+    if (data.version !== 1) throw new Error(`Unsupported plan version ${data.version}`);
+
+    const signer = await createSigner({ rpcUrl: RPC_URL, chainId: data.chainId });
+    const account = signer.client.account;
+    if (signer.exportOnly || account?.type !== 'local') {
+        throw new Error(`Signer backend "${signer.backend}" cannot sign offline; use turnkey, keystore or private-key`);
+    }
+    if (account.address.toLowerCase() !== data.from.toLowerCase()) {
+        throw new Error(`Plan is for ${data.from}, but the signer is ${account.address}`);
+    }
+    console.log(`Signer: ${describeSigner(signer)}`);
+
+    const signed: SignedExport = {
+        version: 1,
+        chainId: data.chainId,
+        from: data.from,
+        plan: planFile,
+        planDigest: keccak256(Buffer.from(planJson)),
+        signedAt: new Date().toISOString(),
+        transactions: [],
+    };
+
+    for (const tx of [...data.transactions].sort((a, b) => a.nonce - b.nonce)) {
+        if (!tx.maxFeePerGas || !tx.maxPriorityFeePerGas) {
+            throw new Error(`Nonce ${tx.nonce} has no fee cap; re-plan`);
+        }
+
+        const raw = await account.signTransaction({
+            type: 'eip1559',
+            chainId: data.chainId,
+            nonce: tx.nonce,
+            to: tx.to ?? undefined,
+            data: tx.data,
+            value: BigInt(tx.value),
+            gas: BigInt(tx.gas),
+            maxFeePerGas: BigInt(tx.maxFeePerGas),
+            maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas),
+        });
+
+        // The signature must cover exactly what was reviewed
+        const parsed = parseTransaction(raw);
+        if (parsed.nonce !== tx.nonce || (parsed.data ?? '0x') !== tx.data || (parsed.to ?? null)?.toLowerCase() !== tx.to?.toLowerCase()) {
+            throw new Error(`Signed transaction for nonce ${tx.nonce} does not match the plan`);
+        }
+
+        const { hash: planHash, ...fields } = tx;
+        signed.transactions.push({ ...fields, planHash, raw, hash: keccak256(raw), state: 'signed' });
+        console.log(`  nonce ${tx.nonce}: ${keccak256(raw)}`);
+    }
+
+    writeJson(signedFile, signed);
+    console.log(`\nSigned ${signed.transactions.length} transactions → ${signedFile}`);
+    console.log(`Broadcast with: npx tsx scripts/offline-tx.ts broadcast ${signedFile}`);
+}
+
+/** Wait for a sent transaction's receipt and record the outcome; returns the new state */
+async function resolveSent(publicClient: PublicClient, data: SignedExport, tx: SignedTransaction, timeoutMs: number): Promise<SignedState> {
+    try {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: tx.hash, timeout: timeoutMs });
+        tx.state = receipt.status === 'success' ? 'confirmed' : 'failed';
+        tx.receiptStatus = receipt.status;
+        tx.blockNumber = receipt.blockNumber.toString();
+        tx.gasUsed = receipt.gasUsed.toString();
+        tx.error = receipt.status === 'success' ? undefined : 'Transaction reverted';
+        return tx.state;
+    } catch {
+        const latestNonce = await publicClient.getTransactionCount({ address: data.from, blockTag: 'latest' });
+        if (latestNonce > tx.nonce) {
+            tx.state = 'failed';
+            tx.error = `Nonce ${tx.nonce} consumed by another transaction`;
+        }
+        // Otherwise still pending; a later run picks it up
+        return tx.state;
+    }
+}
+
+async function broadcast(signedFile: string): Promise<void> {
+    const data = readJson<SignedExport>(signedFile);
+    const publicClient = createPublicClient({ chain: mainnet, transport: http(RPC_URL) }) as PublicClient;
+
+    const chainId = await publicClient.getChainId();
+    if (chainId !== data.chainId) {
+        throw new Error(`Signed for chain ${data.chainId}, but ${RPC_URL} is chain ${chainId}`);
+    }
+
+    let confirmed = 0;
+    let failed = 0;
+
+    for (const tx of data.transactions) {
+        if (tx.state === 'confirmed') {
+            confirmed++;
+            continue;
+        }
+        if (tx.state === 'failed') {
+            failed++;
+            console.log(`  nonce ${tx.nonce}: failed earlier (${tx.error}); re-plan to retry`);
+            break;
+        }
+
+        if (tx.state === 'signed') {
+            const pending = await publicClient.getTransactionCount({ address: data.from, blockTag: 'pending' });
+            if (pending > tx.nonce) {
+                // Already used: either our own earlier broadcast or a conflicting transaction
+                tx.state = 'sent';
+            } else {
+                if (pending < tx.nonce) {
+                    throw new Error(`Nonce gap: account is at ${pending}, next planned nonce is ${tx.nonce}`);
+                }
+                try {
+                    await publicClient.sendRawTransaction({ serializedTransaction: tx.raw });
+                    tx.state = 'sent';
+                    console.log(`  nonce ${tx.nonce}: sent ${tx.hash}`);
+                } catch (err: any) {
+                    tx.state = 'failed';
+                    tx.error = err.shortMessage ?? err.message;
+                }
+            }
+            writeJson(signedFile, data);
+        }
+
+        if (tx.state === 'sent') {
+            tx.state = await resolveSent(publicClient, data, tx, 300_000);
+            writeJson(signedFile, data);
+        }
+
+        if (tx.state === 'confirmed') {
+            confirmed++;
+            console.log(`  nonce ${tx.nonce}: ✓ block ${tx.blockNumber}, ${Number(tx.gasUsed).toLocaleString()} gas`);
+        } else if (tx.state === 'failed') {
+            failed++;
+            console.log(`  nonce ${tx.nonce}: ✗ ${tx.error}`);
+            // Later nonces depend on this one landing
+            break;
+        } else {
+            console.log(`  nonce ${tx.nonce}: still pending; re-run broadcast to resume`);
+            break;
+        }
+
+        await sleep(300);
+    }
+
+    console.log(`\nConfirmed: ${confirmed}/${data.transactions.length}, failed: ${failed}`);
+    if (confirmed < data.transactions.length) process.exit(1);
+}
+
+async function main() {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'plan':
+            if (args.length < 2) throw new Error('Usage: offline-tx.ts plan <script.ts> <plan.json> [script args...]');
+            return plan(args[0], args[1], args.slice(2));
+        case 'sign':
+            if (args.length < 1) throw new Error('Usage: offline-tx.ts sign <plan.json> [signed.json]');
+            return sign(args[0], args[1] ?? args[0].replace(/\.json$/, '') + '.signed.json');
+        case 'broadcast':
+            if (args.length < 1) throw new Error('Usage: offline-tx.ts broadcast <signed.json>');
+            return broadcast(args[0]);
+        default:
+            throw new Error('Usage: offline-tx.ts <plan|sign|broadcast> ...');
+    }
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
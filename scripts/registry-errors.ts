@@ -0,0 +1,138 @@
+/**
+ * IconRegistry Errors
+ *
+ * Decodes IconRegistry custom error reverts into typed exceptions that carry
+ * the revert arguments, so callers can branch with `instanceof` instead of
+ * matching selectors or error names in messages.
+ *
+ * Usage:
+ *   try {
+ *       await registry.getIconBySlug(slug);
+ *   } catch (err) {
+ *       const decoded = toRegistryError(err);
+ *       if (decoded instanceof IconNotFoundError) console.log(`missing: ${decoded.slugHash}`);
+ *   }
+ */
+
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, isHex } from 'viem';
+import { ICON_REGISTRY_ABI } from './icon-registry-abi';
+
+export class IconRegistryError extends Error {
+    readonly errorName: string;
+    readonly args: readonly unknown[];
+
+    constructor(errorName: string, args: readonly unknown[], message: string, cause?: unknown) {
+        super(message, cause === undefined ? undefined : { cause });
+        this.name = `${errorName}Error`;
+        this.errorName = errorName;
+        this.args = args;
+    }
+}
+
+export class IconNotFoundError extends IconRegistryError {
+    constructor(readonly slugHash: `0x${string}`, cause?: unknown) {
+        super('IconNotFound', [slugHash], `Icon not found: ${slugHash}`, cause);
+    }
+}
+
+export class TokenIconNotMappedError extends IconRegistryError {
+    constructor(readonly token: `0x${string}`, readonly chainId: bigint, cause?: unknown) {
+        super('TokenIconNotMapped', [token, chainId], `No icon mapped for token ${token} on chain ${chainId}`, cause);
+    }
+}
+
+export class ChainIconNotMappedError extends IconRegistryError {
+    constructor(readonly chainId: bigint, cause?: unknown) {
+        super('ChainIconNotMapped', [chainId], `No icon mapped for chain ${chainId}`, cause);
+    }
+}
+
+export class VersionNotFoundError extends IconRegistryError {
+    constructor(readonly slugHash: `0x${string}`, readonly version: bigint, cause?: unknown) {
+        super('VersionNotFound', [slugHash, version], `Version ${version} not found for ${slugHash}`, cause);
+    }
+}
+
+export class LengthMismatchError extends IconRegistryError {
+    constructor(readonly expected: bigint, readonly got: bigint, cause?: unknown) {
+        super('LengthMismatch', [expected, got], `Array length mismatch: expected ${expected}, got ${got}`, cause);
+    }
+}
+
+export class InvalidDataError extends IconRegistryError {
+    constructor(readonly slug: string, cause?: unknown) {
+        super('InvalidData', [slug], `Invalid (empty) icon data for ${slug}`, cause);
+    }
+}
+
+export class InvalidPNGError extends IconRegistryError {
+    constructor(cause?: unknown) {
+        super('InvalidPNG', [], 'Icon data is not a valid PNG', cause);
+    }
+}
+
+export class TransferFailedError extends IconRegistryError {
+    constructor(cause?: unknown) {
+        super('TransferFailed', [], 'ETH or token transfer failed', cause);
+    }
+}
+
+function fromDecoded(errorName: string, args: readonly unknown[], cause: unknown): IconRegistryError {
+    switch (errorName) {
+        case 'IconNotFound':
+            return new IconNotFoundError(args[0] as `0x${string}`, cause);
+        case 'TokenIconNotMapped':
+            return new TokenIconNotMappedError(args[0] as `0x${string}`, args[1] as bigint, cause);
+        case 'ChainIconNotMapped':
+            return new ChainIconNotMappedError(args[0] as bigint, cause);
+        case 'VersionNotFound':
+            return new VersionNotFoundError(args[0] as `0x${string}`, args[1] as bigint, cause);
+        case 'LengthMismatch':
+            return new LengthMismatchError(args[0] as bigint, args[1] as bigint, cause);
+        case 'InvalidData':
+            return new InvalidDataError(args[0] as string, cause);
+        case 'InvalidPNG':
+            return new InvalidPNGError(cause);
+        case 'TransferFailed':
+            return new TransferFailedError(cause);
+        default:
+            return new IconRegistryError(errorName, args, `IconRegistry reverted with ${errorName}`, cause);
+    }
+}
+
+function decodeRevertData(data: `0x${string}`, cause: unknown): IconRegistryError | undefined {
+    try {
+        const { errorName, args } = decodeErrorResult({ abi: ICON_REGISTRY_ABI, data });
+        return fromDecoded(errorName, args ?? [], cause);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Decode an IconRegistry custom error from a viem error or raw revert data.
+ * Returns undefined if the error is not an IconRegistry revert.
+ */
+export function decodeRegistryError(err: unknown): IconRegistryError | undefined {
+    if (err instanceof IconRegistryError) return err;
+    if (typeof err === 'string' && isHex(err)) return decodeRevertData(err, undefined);
+    if (!(err instanceof BaseError)) return undefined;
+
+    const reverted = err.walk(e => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+        if (reverted.data) return fromDecoded(reverted.data.errorName, reverted.data.args ?? [], err);
+        if (reverted.raw) return decodeRevertData(reverted.raw, err);
+    }
+
+    // Raw eth_call / eth_estimateGas errors carry the revert data on some cause
+    const withData = err.walk(e => typeof (e as { data?: unknown }).data === 'string');
+    const data = (withData as { data?: unknown } | null)?.data;
+    if (typeof data === 'string' && isHex(data)) return decodeRevertData(data, err);
+
+    return undefined;
+}
+
+/** Return the typed registry error for `err`, or `err` unchanged if it is not one */
+export function toRegistryError(err: unknown): unknown {
+    return decodeRegistryError(err) ?? err;
+}
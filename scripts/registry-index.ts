@@ -0,0 +1,442 @@
+#!/usr/bin/env npx tsx
+/**
+ * Registry Event Index
+ *
+ * Incrementally indexes IconAdded, IconUpdated, TokenMapped, ChainMapped and
+ * (proxy) Upgraded logs into a local SQLite database, so scripts can look up
+ * slugs (with the plaintext slug from the event), versions, pointers, mappings
+ * and upgrades without paging getSlugsPaginated and calling icons() /
+ * chainToIcon() once per item.
+ *
+ * Each run resumes from the last indexed block. Logs are fetched in chunks that
+ * are written in a single SQLite transaction, so an interrupted run never leaves
+ * a partially indexed range behind. The index stays CONFIRMATIONS blocks behind
+ * the head to avoid indexing logs that may be reorged out.
+ *
+ * Usage:
+ *   npx tsx scripts/registry-index.ts            # Sync to the latest confirmed block
+ *   npx tsx scripts/registry-index.ts rebuild    # Drop the database and sync from START_BLOCK
+ *
+ *   import { createRegistryIndex, registryIndexEnv } from './registry-index';
+ *   const index = createRegistryIndex(registryIndexEnv());
+ *   await index.sync();
+ *   const icon = index.getIconBySlug('protocols/uniswap');
+ *
+ * Environment:
+ *   INDEX_DB - SQLite database path (default: registry-index.db)
+ *   START_BLOCK - First block to index (default: proxy deployment block 23934690)
+ *   LOG_CHUNK_SIZE - Blocks per eth_getLogs request; halved when the RPC rejects a range (default: 10000)
+ *   CONFIRMATIONS - Blocks to stay behind the head (default: 6)
+ *   RPC_URL - Ethereum RPC (default: https://eth.drpc.org)
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { slugToHash } from './icon-registry-client';
+
+export const INDEX_DB = path.join(__dirname, '..', 'registry-index.db');
+/** Block of the proxy deployment (see docs/DEPLOYMENTS.md) */
+export const DEPLOY_BLOCK = 23934690n;
+
+const SCHEMA_VERSION = '2';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS icons (
+    slug_hash TEXT PRIMARY KEY,
+    slug TEXT NOT NULL,
+    pointer TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    added_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS icons_slug ON icons (slug);
+CREATE TABLE IF NOT EXISTS icon_versions (
+    slug_hash TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    slug TEXT NOT NULL,
+    pointer TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (slug_hash, version)
+);
+CREATE TABLE IF NOT EXISTS token_mappings (
+    token TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    slug_hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (token, chain_id)
+);
+CREATE TABLE IF NOT EXISTS chain_mappings (
+    chain_id INTEGER PRIMARY KEY,
+    slug_hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS upgrades (
+    implementation TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+`;
+
+/** Rows as stored by SCHEMA; hex columns are lowercase */
+interface IconRow {
+    slug_hash: `0x${string}`;
+    slug: string;
+    pointer: `0x${string}`;
+    version: number;
+    added_block: number;
+    updated_block: number;
+}
+
+interface IconVersionRow {
+    slug_hash: `0x${string}`;
+    version: number;
+    slug: string;
+    pointer: `0x${string}`;
+    block_number: number;
+    tx_hash: `0x${string}`;
+    log_index: number;
+}
+
+interface TokenMappingRow {
+    token: `0x${string}`;
+    chain_id: number;
+    slug_hash: `0x${string}`;
+    block_number: number;
+    tx_hash: `0x${string}`;
+}
+
+interface ChainMappingRow {
+    chain_id: number;
+    slug_hash: `0x${string}`;
+    block_number: number;
+    tx_hash: `0x${string}`;
+}
+
+interface UpgradeRow {
+    implementation: `0x${string}`;
+    block_number: number;
+    tx_hash: `0x${string}`;
+    log_index: number;
+}
+
+export interface IndexedIcon {
+    slugHash: `0x${string}`;
+    slug: string;
+    pointer: `0x${string}`;
+    version: number;
+    addedBlock: number;
+    updatedBlock: number;
+}
+
+export interface IndexedIconVersion {
+    slugHash: `0x${string}`;
+    version: number;
+    slug: string;
+    pointer: `0x${string}`;
+    blockNumber: number;
+    txHash: `0x${string}`;
+}
+
+export interface IndexedTokenMapping {
+    token: `0x${string}`;
+    chainId: number;
+    slugHash: `0x${string}`;
+    blockNumber: number;
+    txHash: `0x${string}`;
+}
+
+export interface IndexedChainMapping {
+    chainId: number;
+    slugHash: `0x${string}`;
+    blockNumber: number;
+    txHash: `0x${string}`;
+}
+
+export interface IndexedUpgrade {
+    implementation: `0x${string}`;
+    blockNumber: number;
+    txHash: `0x${string}`;
+}
+
+export interface IndexSyncResult {
+    fromBlock: bigint;
+    toBlock: bigint;
+    logs: number;
+}
+
+export interface RegistryIndexConfig {
+    dbPath?: string;
+    rpcUrl?: string;
+    publicClient?: PublicClient;
+    address?: `0x${string}`;
+    startBlock?: bigint;
+    chunkSize?: number;
+    confirmations?: number;
+}
+
+export interface RegistryIndex {
+    db: Database.Database;
+    address: `0x${string}`;
+
+    /** Last fully indexed block, or undefined before the first sync */
+    lastBlock(): bigint | undefined;
+    /** Index logs from the last indexed block up to toBlock (default: latest confirmed) */
+    sync(options?: { toBlock?: bigint; onProgress?: (message: string) => void }): Promise<IndexSyncResult>;
+
+    getIcon(slugHash: `0x${string}`): IndexedIcon | undefined;
+    getIconBySlug(slug: string): IndexedIcon | undefined;
+    allIcons(): IndexedIcon[];
+    iconVersions(slugHash: `0x${string}`): IndexedIconVersion[];
+    tokenMappings(): IndexedTokenMapping[];
+    chainMappings(): IndexedChainMapping[];
+    /** Proxy implementation changes, oldest first (the first is the deployment) */
+    upgrades(): IndexedUpgrade[];
+    /** Indexed slug hashes (lowercased), same shape as IconRegistryClient.getAllSlugHashes */
+    slugHashes(): Set<string>;
+
+    close(): void;
+}
+
+export class IndexMismatchError extends Error {
+    constructor(message: string, public readonly dbPath: string) {
+        super(message);
+        this.name = 'IndexMismatchError';
+    }
+}
+
+/** Index config from the environment (INDEX_DB, START_BLOCK, LOG_CHUNK_SIZE, CONFIRMATIONS) */
+export function registryIndexEnv(): RegistryIndexConfig {
+    return {
+        dbPath: process.env.INDEX_DB || INDEX_DB,
+        startBlock: process.env.START_BLOCK ? BigInt(process.env.START_BLOCK) : undefined,
+        chunkSize: process.env.LOG_CHUNK_SIZE ? parseInt(process.env.LOG_CHUNK_SIZE) : undefined,
+        confirmations: process.env.CONFIRMATIONS ? parseInt(process.env.CONFIRMATIONS) : undefined,
+    };
+}
+
+export function createRegistryIndex(config: RegistryIndexConfig = {}): RegistryIndex {
+    const dbPath = config.dbPath || INDEX_DB;
+    const address = config.address || PROXY_ADDRESS;
+    const startBlock = config.startBlock ?? DEPLOY_BLOCK;
+    const confirmations = BigInt(config.confirmations ?? 6);
+    const publicClient = config.publicClient || createPublicClient({
+        chain: mainnet,
+        transport: http(config.rpcUrl || process.env.RPC_URL || 'https://eth.drpc.org'),
+    }) as PublicClient;
+
+    const db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    const getMeta = db.prepare<[string], { value: string }>('SELECT value FROM meta WHERE key = ?');
+    const setMeta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value');
+
+    // An index is only valid for the contract and start block it was built from
+    const expected: Record<string, string> = {
+        schema_version: SCHEMA_VERSION,
+        address: address.toLowerCase(),
+        start_block: startBlock.toString(),
+    };
+    for (const [key, value] of Object.entries(expected)) {
+        const stored = getMeta.get(key)?.value;
+        if (stored === undefined) {
+            setMeta.run(key, value);
+        } else if (stored !== value) {
+            db.close();
+            throw new IndexMismatchError(`${dbPath} was built with ${key}=${stored}, expected ${value}; rebuild it`, dbPath);
+        }
+    }
+
+    const upsertIcon = db.prepare(`
+        INSERT INTO icons (slug_hash, slug, pointer, version, added_block, updated_block)
+        VALUES (@slugHash, @slug, @pointer, @version, @blockNumber, @blockNumber)
+        ON CONFLICT (slug_hash) DO UPDATE SET
+            slug = excluded.slug, pointer = excluded.pointer, version = excluded.version, updated_block = excluded.updated_block
+    `);
+    const insertVersion = db.prepare(`
+        INSERT OR REPLACE INTO icon_versions (slug_hash, version, slug, pointer, block_number, tx_hash, log_index)
+        VALUES (@slugHash, @version, @slug, @pointer, @blockNumber, @txHash, @logIndex)
+    `);
+    const upsertToken = db.prepare(`
+        INSERT OR REPLACE INTO token_mappings (token, chain_id, slug_hash, block_number, tx_hash)
+        VALUES (@token, @chainId, @slugHash, @blockNumber, @txHash)
+    `);
+    const upsertChain = db.prepare(`
+        INSERT OR REPLACE INTO chain_mappings (chain_id, slug_hash, block_number, tx_hash)
+        VALUES (@chainId, @slugHash, @blockNumber, @txHash)
+    `);
+    const insertUpgrade = db.prepare(`
+        INSERT OR REPLACE INTO upgrades (implementation, block_number, tx_hash, log_index)
+        VALUES (@implementation, @blockNumber, @txHash, @logIndex)
+    `);
+
+    const fetchLogs = (fromBlock: bigint, toBlock: bigint) =>
+        publicClient.getContractEvents({ address, abi: ICON_REGISTRY_ABI, fromBlock, toBlock, strict: true });
+    type Log = Awaited<ReturnType<typeof fetchLogs>>[number];
+
+    // Logs arrive ordered by block and log index, so later events overwrite earlier ones
+    const applyLogs = db.transaction((logs: Log[], toBlock: bigint) => {
+        for (const log of logs) {
+            const at = {
+                blockNumber: Number(log.blockNumber),
+                txHash: log.transactionHash,
+                logIndex: log.logIndex,
+            };
+            switch (log.eventName) {
+                case 'IconAdded':
+                case 'IconUpdated': {
+                    const { slugHash, slug, pointer, version } = log.args;
+                    const row = { slugHash: slugHash.toLowerCase(), slug, pointer, version, ...at };
+                    upsertIcon.run(row);
+                    insertVersion.run(row);
+                    break;
+                }
+                case 'TokenMapped': {
+                    const { token, chainId, slugHash } = log.args;
+                    upsertToken.run({ token: token.toLowerCase(), chainId, slugHash: slugHash.toLowerCase(), ...at });
+                    break;
+                }
+                case 'ChainMapped': {
+                    const { chainId, slugHash } = log.args;
+                    upsertChain.run({ chainId, slugHash: slugHash.toLowerCase(), ...at });
+                    break;
+                }
+                case 'Upgraded':
+                    insertUpgrade.run({ implementation: log.args.implementation.toLowerCase(), ...at });
+                    break;
+            }
+        }
+        setMeta.run('last_block', toBlock.toString());
+    });
+
+    const toIcon = (row: IconRow): IndexedIcon => ({
+        slugHash: row.slug_hash,
+        slug: row.slug,
+        pointer: row.pointer,
+        version: row.version,
+        addedBlock: row.added_block,
+        updatedBlock: row.updated_block,
+    });
+
+    const index: RegistryIndex = {
+        db,
+        address,
+
+        lastBlock: () => {
+            const value = getMeta.get('last_block')?.value;
+            return value === undefined ? undefined : BigInt(value);
+        },
+
+        sync: async ({ toBlock, onProgress } = {}) => {
+            const last = index.lastBlock();
+            const fromBlock = last === undefined ? startBlock : last + 1n;
+            const target = toBlock ?? (await publicClient.getBlockNumber()) - confirmations;
+            let chunkSize = BigInt(config.chunkSize ?? 10_000);
+            let total = 0;
+
+            for (let from = fromBlock; from <= target; ) {
+                const to = from + chunkSize - 1n < target ? from + chunkSize - 1n : target;
+                let logs: Log[];
+                try {
+                    logs = await fetchLogs(from, to);
+                } catch (err) {
+                    // Providers cap the block range or result size; retry with a smaller range
+                    if (chunkSize === 1n) throw err;
+                    chunkSize /= 2n;
+                    onProgress?.(`Blocks ${from}-${to} rejected, retrying with ${chunkSize} blocks per request`);
+                    continue;
+                }
+                applyLogs(logs, to);
+                total += logs.length;
+                onProgress?.(`Indexed blocks ${from}-${to}: ${logs.length} logs`);
+                from = to + 1n;
+            }
+
+            return { fromBlock, toBlock: target, logs: total };
+        },
+
+        getIcon: (slugHash) => {
+            const row = db.prepare<[string], IconRow>('SELECT * FROM icons WHERE slug_hash = ?').get(slugHash.toLowerCase());
+            return row ? toIcon(row) : undefined;
+        },
+        getIconBySlug: (slug) => index.getIcon(slugToHash(slug)),
+        allIcons: () => db.prepare<[], IconRow>('SELECT * FROM icons ORDER BY slug').all().map(toIcon),
+        iconVersions: (slugHash) =>
+            db.prepare<[string], IconVersionRow>('SELECT * FROM icon_versions WHERE slug_hash = ? ORDER BY version')
+                .all(slugHash.toLowerCase())
+                .map(row => ({
+                    slugHash: row.slug_hash,
+                    version: row.version,
+                    slug: row.slug,
+                    pointer: row.pointer,
+                    blockNumber: row.block_number,
+                    txHash: row.tx_hash,
+                })),
+        tokenMappings: () =>
+            db.prepare<[], TokenMappingRow>('SELECT * FROM token_mappings ORDER BY chain_id, token').all().map(row => ({
+                token: row.token,
+                chainId: row.chain_id,
+                slugHash: row.slug_hash,
+                blockNumber: row.block_number,
+                txHash: row.tx_hash,
+            })),
+        chainMappings: () =>
+            db.prepare<[], ChainMappingRow>('SELECT * FROM chain_mappings ORDER BY chain_id').all().map(row => ({
+                chainId: row.chain_id,
+                slugHash: row.slug_hash,
+                blockNumber: row.block_number,
+                txHash: row.tx_hash,
+            })),
+        upgrades: () =>
+            db.prepare<[], UpgradeRow>('SELECT * FROM upgrades ORDER BY block_number, log_index').all().map(row => ({
+                implementation: row.implementation,
+                blockNumber: row.block_number,
+                txHash: row.tx_hash,
+            })),
+        slugHashes: () =>
+            new Set(db.prepare<[], { slug_hash: string }>('SELECT slug_hash FROM icons').all().map(row => row.slug_hash)),
+
+        close: () => db.close(),
+    };
+
+    return index;
+}
+
+// CLI usage
+if (require.main === module) {
+    (async () => {
+        try {
+            const config = registryIndexEnv();
+            if (process.argv[2] === 'rebuild') {
+                for (const suffix of ['', '-wal', '-shm']) fs.rmSync(config.dbPath + suffix, { force: true });
+            }
+
+            const index = createRegistryIndex(config);
+            const { fromBlock, toBlock, logs } = await index.sync({ onProgress: message => console.log(message) });
+            if (fromBlock > toBlock) {
+                console.log(`Index is up to date at block ${index.lastBlock()}`);
+            } else {
+                console.log(`Indexed blocks ${fromBlock}-${toBlock}: ${logs} logs`);
+            }
+            console.log(`${config.dbPath}: ${index.allIcons().length} icons, ${index.tokenMappings().length} token mappings, ${index.chainMappings().length} chain mappings, ${index.upgrades().length} upgrades`);
+            index.close();
+        } catch (err) {
+            console.error('Failed to index IconRegistry events:', err);
+            process.exit(1);
+        }
+    })();
+}
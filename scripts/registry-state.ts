@@ -0,0 +1,396 @@
+/**
+ * Declarative Registry State
+ *
+ * One file (registry-state.json) describes what the registry should contain:
+ * every slug with the content hash of its PNG, every chainToIcon mapping and
+ * every tokenToIcon mapping. planRegistryState() diffs it against the chain;
+ * scripts/registry.ts prints that plan and applies it with the minimal set of
+ * transactions.
+ *
+ * Icons are keyed by on-chain slug and point at their source file in icons-64/.
+ * Every file is registered under its path, and also under its cleanSlug() when
+ * that differs and no file has it as its own path: rsz prefixes dropped and the
+ * name normalized, e.g. pegged/usd+ is also pegged/usd. Those are the slugs
+ * migrate-clean-slugs.ts uploaded.
+ *
+ * Usage:
+ *   const state = loadRegistryState();
+ *   const plan = await planRegistryState(state, createIconRegistryClient());
+ *   console.log(describePlan(plan));
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAddress, isAddress, keccak256 } from 'viem';
+import type { IconUpload } from './batch-packer';
+import { PROXY_ADDRESS, slugToHash, type IconRegistryClient } from './icon-registry-client';
+import { loadArtifact } from './schemas';
+
+export const STATE_FILE = path.join(__dirname, '..', 'registry-state.json');
+export const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
+const CHAIN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'chain-mappings.json');
+const TOKEN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'token-mappings.json');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface IconState {
+    /** Path relative to icons-64/ */
+    file: string;
+    /** keccak256 of the PNG bytes */
+    hash: `0x${string}`;
+}
+
+export interface ChainMappingState {
+    chainId: number;
+    slug: string;
+}
+
+export interface TokenMappingState {
+    token: `0x${string}`;
+    chainId: number;
+    slug: string;
+}
+
+export interface RegistryState {
+    version: 1;
+    contract: `0x${string}`;
+    icons: Record<string, IconState>;
+    chainMappings: ChainMappingState[];
+    tokenMappings: TokenMappingState[];
+}
+
+export interface IconChange {
+    slug: string;
+    file: string;
+    hash: `0x${string}`;
+    /** Hash of the bytes currently on-chain (updates only) */
+    currentHash?: `0x${string}`;
+}
+
+export interface MappingChange<T> {
+    mapping: T;
+    /** Slug hash currently mapped; zero hash when unset */
+    current: `0x${string}`;
+}
+
+export interface RegistryPlan {
+    addIcons: IconChange[];
+    updateIcons: IconChange[];
+    setChains: MappingChange<ChainMappingState>[];
+    setTokens: MappingChange<TokenMappingState>[];
+    unchangedIcons: number;
+    /** On-chain slugs the state file doesn't mention (the registry can't delete them) */
+    unmanagedIcons: number;
+    /** False when bytes of existing icons were not compared */
+    contentChecked: boolean;
+    /** Mappings skipped because their icon is neither in the state nor on-chain */
+    blockedMappings: string[];
+    /** Icons skipped because their file no longer matches the state hash */
+    staleIcons: IconChange[];
+}
+
+export interface PlanOptions {
+    /** Compare on-chain bytes of existing icons with the state hashes (default: true) */
+    checkContent?: boolean;
+    /** Slug hashes per batchGetIcons call when comparing content (default: 50) */
+    contentBatchSize?: number;
+    onProgress?(message: string): void;
+}
+
+export class RegistryStateError extends Error {
+    constructor(message: string, readonly file: string) {
+        super(`${file}: ${message}`);
+        this.name = 'RegistryStateError';
+    }
+}
+
+export function contentHash(data: Uint8Array): `0x${string}` {
+    return keccak256(data);
+}
+
+/** Same normalization migrate-clean-slugs.ts used for the clean on-chain slugs */
+export function cleanSlug(slug: string): string {
+    const parts = slug.split('/');
+    if (parts.length !== 2) return slug;
+
+    const [category, name] = parts;
+    const cleanName = name
+        .replace(/^rsz_?/i, '')
+        .replace(/^rsz/i, '')
+        .toLowerCase()
+        .replace(/[_\s]+/g, '-')
+        .replace(/[^a-z0-9-]/g, '')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+
+    return `${category}/${cleanName}`;
+}
+
+function findAllPngs(dir: string): string[] {
+    const results: string[] = [];
+    if (!fs.existsSync(dir)) return results;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            results.push(...findAllPngs(fullPath));
+        } else if (entry.name.endsWith('.png')) {
+            results.push(fullPath);
+        }
+    }
+    return results.sort();
+}
+
+function pathToSlug(filePath: string): string {
+    return path.relative(ICONS_DIR, filePath).replace(/\.png$/, '').replace(/\\/g, '/');
+}
+
+/**
+ * Local icons in one category (e.g. "chains") by slug: each file by its path slug,
+ * plus its clean slug if that has no file of its own. Values are the path slugs.
+ */
+export function localIconSlugs(category: string, iconsDir: string = ICONS_DIR): Map<string, string> {
+    const icons = new Map<string, string>();
+    const slugs = findAllPngs(path.join(iconsDir, category))
+        .map(file => path.relative(iconsDir, file).replace(/\.png$/, '').replace(/\\/g, '/'));
+
+    slugs.forEach(slug => icons.set(slug, slug));
+    for (const slug of slugs) {
+        const clean = cleanSlug(slug);
+        if (!icons.has(clean)) icons.set(clean, slug);
+    }
+    return icons;
+}
+
+/**
+ * Build the state from today's sources: icons-64/, docs/chain-mappings.json
+ * and docs/token-mappings.json.
+ */
+export function buildRegistryState(): RegistryState {
+    const icons: Record<string, IconState> = {};
+    const pngs = findAllPngs(ICONS_DIR);
+
+    for (const filePath of pngs) {
+        const file = path.relative(ICONS_DIR, filePath).replace(/\\/g, '/');
+        icons[pathToSlug(filePath)] = { file, hash: contentHash(fs.readFileSync(filePath)) };
+    }
+    // Clean slugs second, so a file that is literally named like a clean slug wins
+    for (const filePath of pngs) {
+        const slug = cleanSlug(pathToSlug(filePath));
+        if (!icons[slug]) {
+            const file = path.relative(ICONS_DIR, filePath).replace(/\\/g, '/');
+            icons[slug] = { file, hash: contentHash(fs.readFileSync(filePath)) };
+        }
+    }
+
+    const chainData = loadArtifact('chain-mappings', CHAIN_MAPPINGS_FILE);
+    const tokenData = loadArtifact('token-mappings', TOKEN_MAPPINGS_FILE);
+
+    return {
+        version: 1,
+        contract: PROXY_ADDRESS,
+        icons: Object.fromEntries(Object.entries(icons).sort(([a], [b]) => a.localeCompare(b))),
+        chainMappings: chainData.mappings
+            .map(m => ({ chainId: m.chainId, slug: m.slug }))
+            .sort((a, b) => a.chainId - b.chainId),
+        tokenMappings: tokenData.mappings.map(m => ({
+            token: getAddress(m.token),
+            chainId: m.chainId,
+            slug: m.slug,
+        })),
+    };
+}
+
+export function loadRegistryState(file: string = STATE_FILE): RegistryState {
+    if (!fs.existsSync(file)) {
+        throw new RegistryStateError('not found; create it with `npx tsx scripts/registry.ts init`', file);
+    }
+    const state = JSON.parse(fs.readFileSync(file, 'utf-8')) as RegistryState;
+    if (state.version !== 1) throw new RegistryStateError(`unsupported version ${state.version}`, file);
+
+    for (const [slug, icon] of Object.entries(state.icons)) {
+        if (!/^0x[0-9a-f]{64}$/.test(icon.hash)) throw new RegistryStateError(`icon ${slug} has an invalid hash`, file);
+    }
+
+    const chainIds = new Set<number>();
+    for (const m of state.chainMappings) {
+        if (chainIds.has(m.chainId)) throw new RegistryStateError(`chain ${m.chainId} is mapped twice`, file);
+        chainIds.add(m.chainId);
+    }
+
+    const tokens = new Set<string>();
+    for (const m of state.tokenMappings) {
+        const key = `${m.chainId}:${m.token.toLowerCase()}`;
+        if (!isAddress(m.token)) throw new RegistryStateError(`invalid token address ${m.token}`, file);
+        if (tokens.has(key)) throw new RegistryStateError(`token ${key} is mapped twice`, file);
+        tokens.add(key);
+    }
+
+    return state;
+}
+
+export function saveRegistryState(state: RegistryState, file: string = STATE_FILE): void {
+    fs.writeFileSync(file, JSON.stringify(state, null, 2) + '\n');
+}
+
+/**
+ * Record icons written to icons-64/ and uploaded outside `registry.ts apply`
+ * (sync-and-deploy.ts): every state entry backed by one of their files takes
+ * the file's current hash, and new slugs are added with the same clean alias
+ * buildRegistryState() gives them. Without this the next plan would propose
+ * reverting them. Does nothing if there is no state file.
+ */
+export function recordIconUploads(slugs: string[], file: string = STATE_FILE): number {
+    if (slugs.length === 0 || !fs.existsSync(file)) return 0;
+    const state = loadRegistryState(file);
+
+    const files = new Set(slugs.map(slug => `${slug}.png`));
+    // A file's own path wins over another file's clean alias, as in buildRegistryState()
+    for (const slug of slugs) {
+        if (state.icons[slug]?.file !== `${slug}.png`) state.icons[slug] = { file: `${slug}.png`, hash: '0x' };
+    }
+    for (const slug of slugs) state.icons[cleanSlug(slug)] ??= { file: `${slug}.png`, hash: '0x' };
+
+    let recorded = 0;
+    for (const icon of Object.values(state.icons)) {
+        if (!files.has(icon.file)) continue;
+        const hash = contentHash(fs.readFileSync(path.join(ICONS_DIR, icon.file)));
+        if (hash !== icon.hash) recorded++;
+        icon.hash = hash;
+    }
+    state.icons = Object.fromEntries(Object.entries(state.icons).sort(([a], [b]) => a.localeCompare(b)));
+    saveRegistryState(state, file);
+    return recorded;
+}
+
+/**
+ * Read an icon's source file for upload. Fails if the file no longer matches
+ * the hash in the state, so what is uploaded is always what was reviewed.
+ */
+export function loadIconUpload(slug: string, icon: IconState): IconUpload {
+    const data = fs.readFileSync(path.join(ICONS_DIR, icon.file));
+    if (contentHash(data) !== icon.hash) {
+        throw new Error(`${icon.file} does not match the state hash for ${slug}; re-run init or revert the file`);
+    }
+    if (!data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        throw new Error(`${icon.file} is not a PNG`);
+    }
+    // IHDR is always the first chunk: width and height follow the 16-byte prefix
+    return { slug, data, width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+export async function planRegistryState(
+    state: RegistryState,
+    registry: IconRegistryClient,
+    options: PlanOptions = {}
+): Promise<RegistryPlan> {
+    const checkContent = options.checkContent ?? true;
+    const batchSize = options.contentBatchSize ?? 50;
+    const progress = options.onProgress ?? (() => {});
+
+    const plan: RegistryPlan = {
+        addIcons: [],
+        updateIcons: [],
+        setChains: [],
+        setTokens: [],
+        unchangedIcons: 0,
+        unmanagedIcons: 0,
+        contentChecked: checkContent,
+        blockedMappings: [],
+        staleIcons: [],
+    };
+
+    if (state.contract.toLowerCase() !== registry.address.toLowerCase()) {
+        throw new Error(`State is for ${state.contract}, but the registry client points at ${registry.address}`);
+    }
+
+    progress('Fetching on-chain slugs...');
+    const onChain = await registry.getAllSlugHashes();
+    const desiredHashes = new Set<string>();
+    const existing: IconChange[] = [];
+
+    for (const [slug, icon] of Object.entries(state.icons)) {
+        const slugHash = slugToHash(slug).toLowerCase();
+        desiredHashes.add(slugHash);
+        const change = { slug, file: icon.file, hash: icon.hash };
+        if (onChain.has(slugHash)) {
+            existing.push(change);
+        } else {
+            plan.addIcons.push(change);
+        }
+    }
+    plan.unmanagedIcons = [...onChain].filter(h => !desiredHashes.has(h)).length;
+
+    // Only what was reviewed is uploaded: a file edited since the state was written is reported, not sent
+    const isCurrent = (change: IconChange) => {
+        const filePath = path.join(ICONS_DIR, change.file);
+        if (fs.existsSync(filePath) && contentHash(fs.readFileSync(filePath)) === change.hash) return true;
+        plan.staleIcons.push(change);
+        return false;
+    };
+    plan.addIcons = plan.addIcons.filter(isCurrent);
+
+    if (checkContent) {
+        for (let i = 0; i < existing.length; i += batchSize) {
+            progress(`Comparing icon bytes ${i}/${existing.length}...`);
+            const batch = existing.slice(i, i + batchSize);
+            const datas = await registry.batchGetIcons(batch.map(c => slugToHash(c.slug)));
+            batch.forEach((change, j) => {
+                const currentHash = keccak256(datas[j]);
+                if (currentHash !== change.hash) {
+                    if (isCurrent(change)) plan.updateIcons.push({ ...change, currentHash });
+                } else {
+                    plan.unchangedIcons++;
+                }
+            });
+        }
+    } else {
+        plan.unchangedIcons = existing.length;
+    }
+
+    // Mappings may target icons uploaded outside the state file, but the icon must exist
+    const iconAvailable = (slug: string) => !!state.icons[slug] || onChain.has(slugToHash(slug).toLowerCase());
+
+    progress('Checking chain mappings...');
+    for (const mapping of state.chainMappings) {
+        if (!iconAvailable(mapping.slug)) {
+            plan.blockedMappings.push(`chain ${mapping.chainId} → ${mapping.slug}`);
+            continue;
+        }
+        const current = await registry.chainToIcon(mapping.chainId);
+        if (current.toLowerCase() !== slugToHash(mapping.slug).toLowerCase()) {
+            plan.setChains.push({ mapping, current });
+        }
+    }
+
+    progress('Checking token mappings...');
+    for (const mapping of state.tokenMappings) {
+        if (!iconAvailable(mapping.slug)) {
+            plan.blockedMappings.push(`token ${mapping.chainId}:${mapping.token} → ${mapping.slug}`);
+            continue;
+        }
+        const current = await registry.tokenToIcon(mapping.token, mapping.chainId);
+        if (current.toLowerCase() !== slugToHash(mapping.slug).toLowerCase()) {
+            plan.setTokens.push({ mapping, current });
+        }
+    }
+
+    return plan;
+}
+
+export function planIsEmpty(plan: RegistryPlan): boolean {
+    return plan.addIcons.length + plan.updateIcons.length + plan.setChains.length + plan.setTokens.length === 0;
+}
+
+export function describePlan(plan: RegistryPlan): string {
+    return [
+        `${plan.addIcons.length} icons to add`,
+        `${plan.updateIcons.length} to update${plan.contentChecked ? '' : ' (content not checked)'}`,
+        `${plan.setChains.length} chain mappings to set`,
+        `${plan.setTokens.length} token mappings to set`,
+        `${plan.unchangedIcons} icons unchanged`,
+        `${plan.unmanagedIcons} unmanaged on-chain`,
+        ...(plan.blockedMappings.length > 0 ? [`${plan.blockedMappings.length} mappings blocked (icon missing)`] : []),
+        ...(plan.staleIcons.length > 0 ? [`${plan.staleIcons.length} icons skipped (file changed since the state was written)`] : []),
+    ].join(', ');
+}
@@ -0,0 +1,226 @@
+#!/usr/bin/env npx tsx
+/**
+ * Registry State: init / plan / apply
+ *
+ * Terraform-style management of the IconRegistry from registry-state.json
+ * (see registry-state.ts):
+ *
+ *   init   Write registry-state.json from icons-64/, docs/chain-mappings.json
+ *          and docs/token-mappings.json
+ *   plan   Diff the state file against the chain: icons to add, icons whose
+ *          bytes changed (uploaded as a new version), mappings to set or change
+ *   apply  Re-plan and send the minimal transactions: setIconsBatch for new and
+ *          changed icons, then mapChain, then mapTokensBatch
+ *
+ * Usage:
+ *   npx tsx scripts/registry.ts init
+ *   npx tsx scripts/registry.ts plan
+ *   npx tsx scripts/registry.ts apply
+ *   SIMULATE=anvil ANVIL_FORK_URL=<rpc> npx tsx scripts/registry.ts apply
+ *   npx tsx scripts/offline-tx.ts plan scripts/registry.ts plans/apply.json apply  # Plan for offline signing
+ *
+ * Environment:
+ *   STATE_FILE - State file (default: registry-state.json)
+ *   SKIP_CONTENT_CHECK - If "true", don't compare on-chain bytes of existing icons
+ *   PLAN_FILE - Also write the plan as JSON to this path
+ *   TOKEN_BATCH_SIZE - Token mappings per mapTokensBatch transaction (default: 100)
+ *   MAX_GAS_PRICE_GWEI, PRIORITY_FEE_GWEI, MAX_SPEND_ETH - See tx-manager.ts
+ *   GAS_CEILING, MAX_CALLDATA_BYTES - See batch-packer.ts
+ *   SIGNER - turnkey | keystore | private-key | unsigned | safe (default: turnkey; see signer.ts)
+ *   SIMULATE=anvil - Apply against a local anvil node as the impersonated owner
+ */
+
+import * as fs from 'fs';
+import { createPublicClient, encodeFunctionData, formatEther, http } from 'viem';
+import { mainnet } from 'viem/chains';
+import { isSimulation, startAnvilSimulation, type AnvilSimulation } from './anvil-simulation';
+import { batchPackerEnv, encodeIconBatch, packIconBatches, splitUntilEstimable, type IconUpload } from './batch-packer';
+import { createIconRegistryClient, ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-client';
+import {
+    buildRegistryState,
+    describePlan,
+    loadIconUpload,
+    loadRegistryState,
+    planIsEmpty,
+    planRegistryState,
+    saveRegistryState,
+    STATE_FILE,
+    type RegistryPlan,
+    type RegistryState,
+} from './registry-state';
+import { toRegistryError } from './registry-errors';
+import { createSigner, describeSigner } from './signer';
+import { createTxManager, SpendCapExceededError, StuckTransactionError, txManagerEnv } from './tx-manager';
+
+const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
+const STATE_PATH = process.env.STATE_FILE || STATE_FILE;
+const SKIP_CONTENT_CHECK = process.env.SKIP_CONTENT_CHECK === 'true';
+const TOKEN_BATCH_SIZE = parseInt(process.env.TOKEN_BATCH_SIZE || '100');
+
+// Exported mapping txs can't be estimated while their icons aren't on chain yet
+const EXPORTED_MAP_CHAIN_GAS = 80_000n;
+const EXPORTED_MAP_TOKEN_GAS = 40_000n;
+
+function printPlan(plan: RegistryPlan): void {
+    const show = <T>(title: string, items: T[], format: (item: T) => string) => {
+        if (items.length === 0) return;
+        console.log(`\n${title} (${items.length}):`);
+        items.slice(0, 25).forEach(item => console.log(`  ${format(item)}`));
+        if (items.length > 25) console.log(`  ... and ${items.length - 25} more`);
+    };
+
+    show('+ Icons to add', plan.addIcons, c => `${c.slug} (${c.file})`);
+    show('~ Icons to update', plan.updateIcons, c => `${c.slug}: ${c.currentHash!.slice(0, 10)} → ${c.hash.slice(0, 10)}`);
+    show('~ Chain mappings', plan.setChains, c => `${c.mapping.chainId} → ${c.mapping.slug}`);
+    show('~ Token mappings', plan.setTokens, c => `${c.mapping.chainId}:${c.mapping.token} → ${c.mapping.slug}`);
+    show('! Blocked mappings (icon neither in state nor on-chain)', plan.blockedMappings, m => m);
+    show('! Stale icons (file changed since the state was written; re-run init or revert it)', plan.staleIcons, c => `${c.slug} (${c.file})`);
+    console.log(`\nPlan: ${describePlan(plan)}`);
+}
+
+async function apply(state: RegistryState, plan: RegistryPlan, sim: AnvilSimulation | undefined): Promise<void> {
+    const publicClient = sim?.publicClient ?? createPublicClient({ chain: mainnet, transport: http(RPC_URL) });
+
+    console.log(sim ? '\nUsing impersonated owner...' : '\nInitializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}\n`);
+
+    const txManager = createTxManager({ publicClient, walletClient, ...txManagerEnv(), exportOnly: signer.exportOnly });
+    let sent = 0;
+    let failed = 0;
+
+    // Stops the run on spend cap / stuck tx; other failures are counted and skipped
+    const send = async (label: string, tx: { data: `0x${string}`; gas?: bigint }): Promise<void> => {
+        try {
+            const { hash, receipt } = await txManager.send({ to: PROXY_ADDRESS, ...tx });
+            if (receipt && receipt.status !== 'success') {
+                throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+            }
+            sent++;
+            console.log(`✓ ${label} ${receipt ? `(${receipt.gasUsed.toLocaleString()} gas)` : `exported as ${hash}`}`);
+        } catch (err) {
+            failed++;
+            console.error(`✗ ${label}: ${String(toRegistryError(err)).slice(0, 100)}`);
+            if (err instanceof SpendCapExceededError || err instanceof StuckTransactionError) throw err;
+        }
+    };
+
+    try {
+        // Icons first: mappings require their icon to exist
+        // A file changed after planning is rejected on its own; the rest still go out
+        const uploads: IconUpload[] = [];
+        for (const c of [...plan.addIcons, ...plan.updateIcons]) {
+            try {
+                uploads.push(loadIconUpload(c.slug, state.icons[c.slug]));
+            } catch (err) {
+                failed++;
+                console.error(`✗ ${c.slug} rejected: ${(err as Error).message}`);
+            }
+        }
+        const packerConfig = batchPackerEnv();
+        const packed = packIconBatches(uploads, icon => icon, packerConfig);
+        if (uploads.length > 0) console.log(`Uploading ${uploads.length} icons in ${packed.length} batches`);
+
+        for (const [i, group] of packed.entries()) {
+            const { batches, rejected } = await splitUntilEstimable(
+                group,
+                batch => publicClient.estimateGas({ account: address, to: PROXY_ADDRESS, data: encodeIconBatch(batch) }),
+                packerConfig,
+                (size, reason) => console.log(`Batch ${i + 1}: splitting ${size} icons (${reason})`)
+            );
+            for (const { item, error } of rejected) {
+                failed++;
+                console.error(`✗ ${item.slug} rejected: ${String(toRegistryError(error)).slice(0, 100)}`);
+            }
+            for (const batch of batches) {
+                await send(`setIconsBatch ${batch.items.length} icons (batch ${i + 1}/${packed.length})`, { data: encodeIconBatch(batch.items) });
+            }
+        }
+
+        for (const { mapping } of plan.setChains) {
+            const data = encodeFunctionData({
+                abi: ICON_REGISTRY_ABI,
+                functionName: 'mapChain',
+                args: [BigInt(mapping.chainId), mapping.slug],
+            });
+            await send(`mapChain ${mapping.chainId} → ${mapping.slug}`, {
+                data,
+                gas: signer.exportOnly ? EXPORTED_MAP_CHAIN_GAS : undefined,
+            });
+        }
+
+        for (let i = 0; i < plan.setTokens.length; i += TOKEN_BATCH_SIZE) {
+            const batch = plan.setTokens.slice(i, i + TOKEN_BATCH_SIZE).map(c => c.mapping);
+            const data = encodeFunctionData({
+                abi: ICON_REGISTRY_ABI,
+                functionName: 'mapTokensBatch',
+                args: [batch.map(m => m.token), batch.map(m => BigInt(m.chainId)), batch.map(m => m.slug)],
+            });
+            await send(`mapTokensBatch ${batch.length} tokens`, {
+                data,
+                gas: signer.exportOnly ? EXPORTED_MAP_TOKEN_GAS * BigInt(batch.length) + 50_000n : undefined,
+            });
+        }
+    } catch (err) {
+        console.error(`Stopping: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    console.log('\n=== Apply Complete ===');
+    console.log(`Transactions: ${sent} ${signer.exportOnly ? 'exported' : 'confirmed'}, ${failed} failed`);
+    console.log(`Spent: ${formatEther(txManager.spent)} ETH`);
+    if (signer.exportOnly) console.log(`Transactions exported to ${signer.exportFile}`);
+}
+
+async function main() {
+    const command = process.argv[2];
+
+    if (command === 'init') {
+        console.log('Building state from icons-64/ and docs/*-mappings.json...');
+        const state = buildRegistryState();
+        saveRegistryState(state, STATE_PATH);
+        console.log(`Wrote ${STATE_PATH}: ${Object.keys(state.icons).length} icons, ${state.chainMappings.length} chain mappings, ${state.tokenMappings.length} token mappings`);
+        return;
+    }
+    if (command !== 'plan' && command !== 'apply') {
+        throw new Error('Usage: registry.ts <init|plan|apply>');
+    }
+
+    console.log(`=== IconRegistry ${command} ===\n`);
+    const state = loadRegistryState(STATE_PATH);
+    console.log(`State: ${STATE_PATH} (${Object.keys(state.icons).length} icons, ${state.chainMappings.length} chain mappings, ${state.tokenMappings.length} token mappings)`);
+
+    const sim = command === 'apply' && isSimulation() ? await startAnvilSimulation() : undefined;
+    const registry = createIconRegistryClient(sim ? { publicClient: sim.publicClient } : { rpcUrl: RPC_URL });
+
+    const plan = await planRegistryState(state, registry, {
+        checkContent: !SKIP_CONTENT_CHECK,
+        onProgress: message => console.log(message),
+    });
+    printPlan(plan);
+
+    if (process.env.PLAN_FILE) {
+        fs.writeFileSync(process.env.PLAN_FILE, JSON.stringify(plan, null, 2) + '\n');
+        console.log(`Plan written to ${process.env.PLAN_FILE}`);
+    }
+
+    if (command === 'plan') return;
+
+    if (planIsEmpty(plan)) {
+        console.log('\nNothing to apply; the registry matches the state file.');
+        await sim?.finish();
+        return;
+    }
+
+    await apply(state, plan, sim);
+
+    if (sim) {
+        const after = await planRegistryState(state, registry, { checkContent: !SKIP_CONTENT_CHECK });
+        await sim.finish({ 'Remaining plan': describePlan(after) });
+    }
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
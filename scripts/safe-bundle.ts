@@ -0,0 +1,147 @@
+/**
+ * Safe Transaction Builder Bundles
+ *
+ * Writes owner transactions as JSON bundles that the Safe{Wallet} Transaction
+ * Builder app can import, so registry writes can be proposed to a multisig
+ * instead of being sent by a single key. Used by the `safe` signer backend
+ * (SIGNER=safe, see signer.ts): the scripts plan and "send" as usual and every
+ * transaction lands in a bundle.
+ *
+ * The Transaction Builder executes a whole bundle as one MultiSend
+ * transaction, so bundles are split once their summed gas would pass the
+ * ceiling; each bundle file is proposed and executed separately, in order.
+ *
+ * A Safe cannot create contracts with a plain call, so deployments go through
+ * the deterministic deployment proxy (CREATE2) with a predictable address.
+ *
+ * Usage:
+ *   const writer = createSafeBundleWriter({ safeAddress, chainId: 1, dir: 'exports/safe-upgrade' });
+ *   writer.add({ to: PROXY_ADDRESS, data, gas });
+ *   const { request, address } = create2Deployment(bytecode);
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { concat, getContractAddress, keccak256, type Hex } from 'viem';
+import { DEFAULT_GAS_CEILING } from './batch-packer';
+
+/** Arachnid's deterministic deployment proxy, deployed on mainnet and most chains */
+export const CREATE2_FACTORY = '0x4e59b44847b379578588920cA78FbF26c0B4956C' as const;
+
+export const TX_BUILDER_VERSION = '1.16.5';
+
+export interface SafeBundleTransaction {
+    to: `0x${string}`;
+    value: string;
+    data: `0x${string}`;
+    contractMethod: null;
+    contractInputsValues: null;
+}
+
+export interface SafeBundle {
+    version: '1.0';
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: `0x${string}`;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeBundleTransaction[];
+}
+
+export interface SafeBundleWriterConfig {
+    safeAddress: `0x${string}`;
+    chainId: number;
+    /** Directory that receives bundle-001.json, bundle-002.json, ... */
+    dir: string;
+    /** Bundle name shown in the Transaction Builder (default: the running script) */
+    name?: string;
+    /** Max summed gas per bundle (default: DEFAULT_GAS_CEILING) */
+    gasCeiling?: bigint;
+}
+
+export interface SafeBundleWriter {
+    dir: string;
+    /** Bundle files written so far, in execution order */
+    readonly files: string[];
+    /** Append a call; returns a stable pseudo-hash identifying it */
+    add(tx: { to: `0x${string}`; data?: `0x${string}`; value?: bigint; gas: bigint }): `0x${string}`;
+}
+
+export function createSafeBundleWriter(config: SafeBundleWriterConfig): SafeBundleWriter {
+    const gasCeiling = config.gasCeiling ?? DEFAULT_GAS_CEILING;
+    const name = config.name ?? `IconRegistry ${path.basename(process.argv[1] ?? 'scripts', '.ts')}`;
+    const files: string[] = [];
+
+    let current: SafeBundle | undefined;
+    let currentGas = 0n;
+    let count = 0;
+
+    const save = () => {
+        fs.mkdirSync(config.dir, { recursive: true });
+        fs.writeFileSync(files[files.length - 1], JSON.stringify(current, null, 2) + '\n');
+    };
+
+    const startBundle = () => {
+        const index = files.length + 1;
+        current = {
+            version: '1.0',
+            chainId: config.chainId.toString(),
+            createdAt: Date.now(),
+            meta: {
+                name: `${name} (${index})`,
+                description: `Bundle ${index}; execute bundles in order`,
+                txBuilderVersion: TX_BUILDER_VERSION,
+                createdFromSafeAddress: config.safeAddress,
+                createdFromOwnerAddress: '',
+            },
+            transactions: [],
+        };
+        currentGas = 0n;
+        files.push(path.join(config.dir, `bundle-${String(index).padStart(3, '0')}.json`));
+    };
+
+    return {
+        dir: config.dir,
+        get files() {
+            return [...files];
+        },
+
+        add: (tx) => {
+            if (!current || (current.transactions.length > 0 && currentGas + tx.gas > gasCeiling)) {
+                startBundle();
+            }
+            const value = tx.value ?? 0n;
+            current!.transactions.push({
+                to: tx.to,
+                value: value.toString(),
+                data: tx.data ?? '0x',
+                contractMethod: null,
+                contractInputsValues: null,
+            });
+            currentGas += tx.gas;
+            save();
+
+            count++;
+            return keccak256(concat([config.safeAddress, tx.to, tx.data ?? '0x', `0x${count.toString(16).padStart(64, '0')}`]));
+        },
+    };
+}
+
+/**
+ * Call to the deterministic deployment proxy that deploys `bytecode`, and the
+ * resulting address. The salt defaults to the bytecode hash, so redeploying
+ * the same bytecode resolves to the same address.
+ */
+export function create2Deployment(bytecode: Hex, salt: Hex = keccak256(bytecode)): {
+    request: { to: `0x${string}`; data: `0x${string}` };
+    address: `0x${string}`;
+} {
+    return {
+        request: { to: CREATE2_FACTORY, data: concat([salt, bytecode]) },
+        address: getContractAddress({ opcode: 'CREATE2', from: CREATE2_FACTORY, salt, bytecode }),
+    };
+}
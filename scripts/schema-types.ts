@@ -0,0 +1,227 @@
+// Generated by scripts/generate-schema-types.ts from docs/schemas/. Do not edit.
+// Schemas: manifest.v1.schema.json, manifest-index.v1.schema.json, chain-mappings.v2.schema.json, token-mappings.v1.schema.json, tokenlist.schema.json
+
+/** docs/manifest.json: every icon in icons-64/ with its slug hash, keywords and chain/token mappings */
+export interface Manifest {
+    version: string;
+    generatedAt: string;
+    contract: Address;
+    network: string;
+    description: string;
+    stats: ManifestStats;
+    usage: Usage;
+    heuristics: {
+        description: string;
+        example: string;
+    };
+    /** Sorted by category, then slug */
+    icons: ManifestIcon[];
+}
+
+export type Address = string;
+
+export interface ManifestStats {
+    total: number;
+    byCategory: Record<string, number>;
+    /** Icons with chain mappings, token mappings, or either */
+    mapped: {
+        chains: number;
+        tokens: number;
+        total: number;
+    };
+    unmapped: number;
+    /** Icons stored in the registry */
+    onChain?: number;
+    /** Icons queued in pending-uploads.json */
+    pending?: number;
+}
+
+/** Contract calls by lookup kind */
+export type Usage = Record<string, string>;
+
+export interface ManifestIcon {
+    slug: Slug;
+    /** keccak256 of the slug, the registry's icon ID */
+    slugHash: string;
+    category: string;
+    name: string;
+    /** Slug variations, name parts and acronyms for fuzzy matching */
+    keywords: string[];
+    /** Chain IDs whose chain icon this is */
+    chainMappings?: number[];
+    /** Tokens whose icon this is */
+    tokenMappings?: TokenRef[];
+    /** Stored in the registry when the manifest was generated; the fields below are only set for on-chain icons */
+    onChain?: boolean;
+    /** Not on-chain yet, but queued in pending-uploads.json */
+    pending?: boolean;
+    /** SSTORE2 pointer of the current version */
+    pointer?: Address;
+    /** Current version, from getIconInfo */
+    version?: number;
+    width?: number;
+    height?: number;
+    /** Size of the on-chain PNG */
+    byteLength?: number;
+    /** keccak256 of the on-chain PNG */
+    contentHash?: string;
+}
+
+/** Registry slug, "<category>/<name>" as stored on-chain */
+export type Slug = string;
+
+export interface TokenRef {
+    address: Address;
+    chainId: number;
+}
+
+/** docs/manifest-index.json: lookup tables from docs/manifest.json without the icon details */
+export interface ManifestIndex {
+    version: string;
+    generatedAt: string;
+    contract: Address;
+    network: string;
+    stats: ManifestStats;
+    usage: Usage;
+    /** Chain ID → slug */
+    chainIdToSlug: Record<string, Slug>;
+    /** "<chainId>:<lowercased address>" → slug */
+    tokenToSlug: Record<string, Slug>;
+    slugsByCategory: {
+        chains: Slug[];
+        protocols: Slug[];
+        pegged: Slug[];
+        agg_icons: Slug[];
+    };
+}
+
+/** docs/chain-mappings.json: chain ID → icon slug mappings deployed with mapChain */
+export interface ChainMappingsFile {
+    version: string;
+    generatedAt: string;
+    contract: Address;
+    network: string;
+    description: string;
+    usage: Usage;
+    mappings: ChainMapping[];
+}
+
+export interface ChainMapping {
+    chainId: number;
+    /** Display name */
+    name: string;
+    slug: string;
+    testnet: boolean;
+    /** Mainnet chain ID a testnet takes its icon from; must be mapped in the same file */
+    parent?: number;
+}
+
+/** docs/token-mappings.json: token address → icon slug mappings deployed with mapTokensBatch */
+export interface TokenMappingsFile {
+    version: string;
+    generatedAt: string;
+    contract: Address;
+    network: string;
+    description: string;
+    usage: Usage;
+    mappings: TokenMapping[];
+}
+
+export interface TokenMapping {
+    /** Lowercased token address */
+    token: string;
+    chainId: number;
+    slug: string;
+    name: string;
+    symbol: string;
+    /** ERC-20 decimals, where the source knew them (needed for token lists) */
+    decimals?: number;
+    /** How the icon was chosen; "manual" for curated lists in the generators */
+    method?: 'exact' | 'normalized' | 'fuzzy' | 'manual';
+    /** Match confidence, 0-1; absent for hand-curated entries */
+    confidence?: number;
+    /** Accepted by a reviewer despite low confidence */
+    reviewed?: boolean;
+}
+
+/** Schema for lists of tokens compatible with the Uniswap Interface */
+export interface UniswapTokenList {
+    /** The name of the token list */
+    name: string;
+    /** The timestamp of this list version; i.e. when this immutable version of the list was created */
+    timestamp: string;
+    version: Version;
+    /** The list of tokens included in the list */
+    tokens: TokenInfo[];
+    /** A mapping of key 'chainId_tokenAddress' to its corresponding token object */
+    tokenMap?: Record<string, TokenInfo>;
+    /** Keywords associated with the contents of the list; may be used in list discoverability */
+    keywords?: string[];
+    /** A mapping of tag identifiers to their name and description */
+    tags?: Record<string, TagDefinition>;
+    /** A URI for the logo of the token list; prefer SVG or PNG of size 256x256 */
+    logoURI?: string;
+}
+
+/** The version of the list, used in change detection */
+export interface Version {
+    /** The major version of the list. Must be incremented when tokens are removed from the list or token addresses are changed. */
+    major: number;
+    /** The minor version of the list. Must be incremented when tokens are added to the list. */
+    minor: number;
+    /** The patch version of the list. Must be incremented for any changes to the list. */
+    patch: number;
+}
+
+/** Metadata for a single token in a token list */
+export interface TokenInfo {
+    /** The chain ID of the Ethereum network where this token is deployed */
+    chainId: number;
+    /** The checksummed address of the token on the specified chain ID */
+    address: string;
+    /** The number of decimals for the token balance */
+    decimals: number;
+    /** The name of the token */
+    name: string;
+    /** The symbol for the token */
+    symbol: string;
+    /** A URI to the token logo asset; if not set, interface will attempt to find a logo based on the token address; suggest SVG or PNG of size 64x64 */
+    logoURI?: string;
+    /** An array of tag identifiers associated with the token; tags are defined at the list level */
+    tags?: TagIdentifier[];
+    extensions?: ExtensionMap;
+}
+
+/** The unique identifier of a tag */
+export type TagIdentifier = string;
+
+/** An object containing any arbitrary or vendor-specific token metadata */
+export type ExtensionMap = Record<string, ExtensionValue>;
+
+export type ExtensionValue = ExtensionPrimitiveValue | Record<string, ExtensionValueInner0>;
+
+export type ExtensionPrimitiveValue = string | boolean | number | null;
+
+export type ExtensionValueInner0 = ExtensionPrimitiveValue | Record<string, ExtensionValueInner1>;
+
+export type ExtensionValueInner1 = ExtensionPrimitiveValue;
+
+/** Definition of a tag that can be associated with a token via its identifier */
+export interface TagDefinition {
+    /** The name of the tag */
+    name: string;
+    /** A user-friendly description of the tag */
+    description: string;
+}
+
+/** The name of a token extension property */
+export type ExtensionIdentifier = string;
+
+/** Artifact name → type, for the loaders in schemas.ts */
+export interface ArtifactTypes {
+    'manifest': Manifest;
+    'manifest-index': ManifestIndex;
+    'chain-mappings': ChainMappingsFile;
+    'token-mappings': TokenMappingsFile;
+    'tokenlist': UniswapTokenList;
+}
@@ -0,0 +1,396 @@
+#!/usr/bin/env npx tsx
+/**
+ * Artifact Schemas
+ *
+ * Validating loaders for the JSON artifacts in docs/ (manifest.json,
+ * manifest-index.json, chain-mappings.json, token-mappings.json,
+ * iconregistry.tokenlist.json), checked against the JSON Schemas in docs/schemas/. The schemas are the source of truth:
+ * the TypeScript types in schema-types.ts are generated from them with
+ * generate-schema-types.ts.
+ *
+ * Schemas are versioned by major: <artifact>.v<major>.schema.json validates
+ * artifacts whose "version" is <major>.x.y. Adding an optional field or an enum
+ * value is a compatible edit to the current schema. Anything else that changes
+ * an existing field (removing or renaming it, changing its type or constraints,
+ * making it required or optional) is breaking and goes into a new
+ * <artifact>.v<major + 1>.schema.json, with the artifact's version bumped to
+ * match; published schemas stay as they are for pinned clients. `breaking` below
+ * reports breaking edits to published schemas.
+ *
+ * Third-party schemas are vendored unchanged under their own name instead
+ * (VENDORED_SCHEMAS): the token list's "version" is the list's own, so it isn't
+ * matched against a schema major.
+ *
+ * The validator covers the keywords the schemas use: type, properties, required,
+ * additionalProperties, propertyNames, minProperties, maxProperties, items,
+ * minItems, maxItems, uniqueItems, enum, const, anyOf, pattern, format (date,
+ * date-time, uri), minimum, maximum, minLength, maxLength and $ref (to $defs or
+ * definitions, local or in another schema file in docs/schemas/).
+ *
+ * Usage:
+ *   import { loadManifest } from './schemas';
+ *   const manifest = loadManifest();  // Throws SchemaValidationError listing every problem
+ *
+ *   npx tsx scripts/schemas.ts                 # Validate the artifacts in docs/
+ *   npx tsx scripts/schemas.ts breaking [ref]  # Breaking schema edits since ref (default: origin/main)
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ArtifactTypes, Manifest, ManifestIndex } from './schema-types';
+
+const ROOT = path.join(__dirname, '..');
+export const SCHEMAS_DIR = path.join(ROOT, 'docs', 'schemas');
+
+export const ARTIFACT_FILES = {
+    'manifest': path.join(ROOT, 'docs', 'manifest.json'),
+    'manifest-index': path.join(ROOT, 'docs', 'manifest-index.json'),
+    'chain-mappings': path.join(ROOT, 'docs', 'chain-mappings.json'),
+    'token-mappings': path.join(ROOT, 'docs', 'token-mappings.json'),
+    'tokenlist': path.join(ROOT, 'docs', 'iconregistry.tokenlist.json'),
+};
+
+export type ArtifactName = keyof typeof ARTIFACT_FILES;
+
+/** Artifacts checked against a vendored third-party schema, by schema file name */
+export const VENDORED_SCHEMAS: Partial<Record<ArtifactName, string>> = {
+    'tokenlist': 'tokenlist.schema.json',  // https://uniswap.org/tokenlist.schema.json
+};
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    /** Draft-07 name for $defs, used by vendored schemas */
+    definitions?: Record<string, JsonSchema>;
+    title?: string;
+    description?: string;
+    type?: JsonType | JsonType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    propertyNames?: JsonSchema;
+    minProperties?: number;
+    maxProperties?: number;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    enum?: unknown[];
+    const?: unknown;
+    anyOf?: JsonSchema[];
+    pattern?: string;
+    format?: 'date' | 'date-time' | 'uri';
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+}
+
+export class SchemaValidationError extends Error {
+    constructor(public readonly file: string, public readonly problems: string[]) {
+        const shown = problems.slice(0, 20);
+        if (problems.length > shown.length) shown.push(`... and ${problems.length - shown.length} more`);
+        super(`${file} is invalid:\n  ${shown.join('\n  ')}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+export function schemaFileName(artifact: ArtifactName, major: number): string {
+    return `${artifact}.v${major}.schema.json`;
+}
+
+/** Majors with a schema in docs/schemas/, ascending */
+export function schemaVersions(artifact: ArtifactName): number[] {
+    const pattern = new RegExp(`^${artifact}\\.v(\\d+)\\.schema\\.json$`);
+    return fs.readdirSync(SCHEMAS_DIR)
+        .map(f => pattern.exec(f)?.[1])
+        .filter((m): m is string => m !== undefined)
+        .map(Number)
+        .sort((a, b) => a - b);
+}
+
+/** The newest major, which schema-types.ts is generated from */
+export function currentSchemaVersion(artifact: ArtifactName): number {
+    const versions = schemaVersions(artifact);
+    if (versions.length === 0) throw new Error(`No schema for ${artifact} in ${SCHEMAS_DIR}`);
+    return versions[versions.length - 1];
+}
+
+/** The schema file an artifact is validated against: its vendored schema or its current major */
+export function artifactSchemaFile(artifact: ArtifactName): string {
+    return VENDORED_SCHEMAS[artifact] ?? schemaFileName(artifact, currentSchemaVersion(artifact));
+}
+
+const schemaCache = new Map<string, JsonSchema>();
+
+/** A schema in docs/schemas/ by file name */
+export function readSchema(fileName: string): JsonSchema {
+    let schema = schemaCache.get(fileName);
+    if (!schema) {
+        schema = JSON.parse(fs.readFileSync(path.join(SCHEMAS_DIR, fileName), 'utf-8')) as JsonSchema;
+        schemaCache.set(fileName, schema);
+    }
+    return schema;
+}
+
+/** Resolve "#/$defs/X" or "other.schema.json#/$defs/X" (or /definitions/X) from the schema file `base` */
+export function resolveRef(ref: string, base: string): { schema: JsonSchema; file: string; name: string } {
+    const [fileName, pointer = ''] = ref.split('#');
+    const file = fileName || base;
+    const match = /^\/(\$defs|definitions)\/([^/]+)$/.exec(pointer);
+    const schema = match && readSchema(file)[match[1] as '$defs' | 'definitions']?.[match[2]];
+    if (!schema) throw new Error(`${base}: cannot resolve $ref ${ref}`);
+    return { schema, file, name: match[2] };
+}
+
+function jsonType(value: unknown): JsonType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonType;
+}
+
+const FORMATS: Record<NonNullable<JsonSchema['format']>, (value: string) => boolean> = {
+    'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+    'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value) && !Number.isNaN(Date.parse(value)),
+    'uri': value => /^[a-z][a-z0-9+.-]*:\S+$/i.test(value),
+};
+
+/**
+ * Problems with `value` against `schema` (from the schema file `base`, for
+ * resolving refs); empty if it is valid.
+ */
+export function validateJson(schema: JsonSchema, value: unknown, base: string, at = '(root)'): string[] {
+    if (schema.$ref) {
+        const target = resolveRef(schema.$ref, base);
+        return validateJson(target.schema, value, target.file, at);
+    }
+
+    const problems: string[] = [];
+    const actual = jsonType(value);
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+            return [`${at}: expected ${allowed.join(' or ')}, got ${actual}`];
+        }
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        problems.push(`${at}: ${JSON.stringify(value)} is not one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+    if (schema.const !== undefined && value !== schema.const) {
+        problems.push(`${at}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`);
+    }
+    if (schema.anyOf) {
+        const options = schema.anyOf.map(option => validateJson(option, value, base, at));
+        if (options.every(p => p.length > 0)) problems.push(`${at}: matches none of anyOf (${options.map(p => p[0]).join('; ')})`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            problems.push(`${at}: must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            problems.push(`${at}: must be at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+            problems.push(`${at}: ${JSON.stringify(value)} does not match ${schema.pattern}`);
+        }
+        if (schema.format && !FORMATS[schema.format](value)) {
+            problems.push(`${at}: ${JSON.stringify(value)} is not a ${schema.format}`);
+        }
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${at}: ${value} is below ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${at}: ${value} is above ${schema.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) problems.push(`${at}: must have at least ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) problems.push(`${at}: must have at most ${schema.maxItems} items`);
+        if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size < value.length) {
+            problems.push(`${at}: items must be unique`);
+        }
+        if (schema.items) value.forEach((item, i) => problems.push(...validateJson(schema.items!, item, base, `${at}[${i}]`)));
+    }
+
+    if (actual === 'object') {
+        const object = value as Record<string, unknown>;
+        const prefix = at === '(root)' ? '' : `${at}.`;
+        const count = Object.keys(object).length;
+        if (schema.minProperties !== undefined && count < schema.minProperties) problems.push(`${at}: must have at least ${schema.minProperties} fields`);
+        if (schema.maxProperties !== undefined && count > schema.maxProperties) problems.push(`${at}: must have at most ${schema.maxProperties} fields`);
+        for (const key of schema.required ?? []) {
+            if (!(key in object)) problems.push(`${at}: missing ${key}`);
+        }
+        for (const [key, item] of Object.entries(object)) {
+            if (schema.propertyNames) {
+                problems.push(...validateJson(schema.propertyNames, key, base, `${at} key ${JSON.stringify(key)}`));
+            }
+            const property = schema.properties?.[key];
+            if (property) {
+                problems.push(...validateJson(property, item, base, `${prefix}${key}`));
+            } else if (schema.additionalProperties === false) {
+                problems.push(`${at}: unexpected field ${key}`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                problems.push(...validateJson(schema.additionalProperties, item, base, `${prefix}${key}`));
+            }
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Problems with an artifact against its current schema; empty if it is valid.
+ * Artifacts from another major fail: the types describe the current one.
+ */
+export function validateArtifact(artifact: ArtifactName, data: unknown): string[] {
+    const vendored = VENDORED_SCHEMAS[artifact];
+    if (vendored) return validateJson(readSchema(vendored), data, vendored);
+
+    const major = currentSchemaVersion(artifact);
+    const version = (data as { version?: unknown } | null)?.version;
+    if (typeof version !== 'string' || parseInt(version, 10) !== major) {
+        return [`version: ${JSON.stringify(version)} is not ${major}.x (${schemaFileName(artifact, major)})`];
+    }
+    const fileName = schemaFileName(artifact, major);
+    return validateJson(readSchema(fileName), data, fileName);
+}
+
+/** Throw a SchemaValidationError if `data` is not a valid artifact; `file` names it in the error */
+export function assertValidArtifact<N extends ArtifactName>(
+    artifact: N,
+    data: unknown,
+    file: string = ARTIFACT_FILES[artifact]
+): asserts data is ArtifactTypes[N] {
+    const problems = validateArtifact(artifact, data);
+    if (problems.length > 0) throw new SchemaValidationError(file, problems);
+}
+
+export function loadArtifact<N extends ArtifactName>(artifact: N, file: string = ARTIFACT_FILES[artifact]): ArtifactTypes[N] {
+    const data: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    assertValidArtifact(artifact, data, file);
+    return data;
+}
+
+export function loadManifest(file: string = ARTIFACT_FILES['manifest']): Manifest {
+    return loadArtifact('manifest', file);
+}
+
+export function loadManifestIndex(file: string = ARTIFACT_FILES['manifest-index']): ManifestIndex {
+    return loadArtifact('manifest-index', file);
+}
+
+function typeList(schema: JsonSchema): string {
+    return [schema.type ?? []].flat().sort().join(',');
+}
+
+/**
+ * Edits from `before` to `after` that can break readers or writers of the
+ * artifact. Constraint and $ref changes count as breaking even if they only
+ * loosen, since clients may validate against the published schema too.
+ */
+export function breakingChanges(before: JsonSchema, after: JsonSchema, at = '(root)'): string[] {
+    const changes: string[] = [];
+    const prefix = at === '(root)' ? '' : `${at}.`;
+
+    if (before.$ref !== after.$ref) changes.push(`${at}: $ref changed from ${before.$ref ?? 'none'} to ${after.$ref ?? 'none'}`);
+    if (typeList(before) !== typeList(after)) changes.push(`${at}: type changed from ${typeList(before) || 'any'} to ${typeList(after) || 'any'}`);
+    for (const keyword of ['const', 'pattern', 'format', 'minimum', 'maximum', 'minLength'] as const) {
+        if (before[keyword] !== after[keyword]) {
+            changes.push(`${at}: ${keyword} changed from ${JSON.stringify(before[keyword])} to ${JSON.stringify(after[keyword])}`);
+        }
+    }
+    if (before.propertyNames?.pattern !== after.propertyNames?.pattern) changes.push(`${at}: propertyNames changed`);
+    if (before.enum) {
+        const removed = before.enum.filter(v => !after.enum?.includes(v));
+        if (removed.length > 0 || !after.enum) changes.push(`${at}: enum values removed: ${removed.map(v => JSON.stringify(v)).join(', ') || 'all'}`);
+    } else if (after.enum) {
+        changes.push(`${at}: enum added`);
+    }
+
+    const requiredBefore = new Set(before.required ?? []);
+    const requiredAfter = new Set(after.required ?? []);
+    for (const key of requiredAfter) if (!requiredBefore.has(key)) changes.push(`${prefix}${key}: became required`);
+    for (const key of requiredBefore) if (!requiredAfter.has(key)) changes.push(`${prefix}${key}: became optional`);
+
+    for (const [key, property] of Object.entries(before.properties ?? {})) {
+        const next = after.properties?.[key];
+        if (!next) changes.push(`${prefix}${key}: removed`);
+        else changes.push(...breakingChanges(property, next, `${prefix}${key}`));
+    }
+    if (typeof before.additionalProperties === 'object' && typeof after.additionalProperties === 'object') {
+        changes.push(...breakingChanges(before.additionalProperties, after.additionalProperties, `${prefix}*`));
+    } else if (before.additionalProperties !== after.additionalProperties) {
+        changes.push(`${at}: additionalProperties changed`);
+    }
+    if (before.items && after.items) changes.push(...breakingChanges(before.items, after.items, `${at}[]`));
+    else if (before.items || after.items) changes.push(`${at}: items changed`);
+
+    for (const [name, def] of Object.entries(before.$defs ?? {})) {
+        const next = after.$defs?.[name];
+        if (!next) changes.push(`$defs/${name}: removed`);
+        else changes.push(...breakingChanges(def, next, `$defs/${name}`));
+    }
+
+    return changes;
+}
+
+// CLI usage
+if (require.main === module) {
+    try {
+        const [command, ref = 'origin/main'] = process.argv.slice(2);
+
+        if (!command) {
+            let failed = false;
+            for (const [artifact, file] of Object.entries(ARTIFACT_FILES) as Array<[ArtifactName, string]>) {
+                if (!fs.existsSync(file)) {
+                    console.log(`${file}: missing, skipped`);
+                    continue;
+                }
+                const problems = validateArtifact(artifact, JSON.parse(fs.readFileSync(file, 'utf-8')));
+                if (problems.length === 0) {
+                    console.log(`${file}: OK (${artifactSchemaFile(artifact)})`);
+                } else {
+                    console.error(new SchemaValidationError(file, problems).message);
+                    failed = true;
+                }
+            }
+            if (failed) process.exit(1);
+        } else if (command === 'breaking') {
+            const dir = path.relative(ROOT, SCHEMAS_DIR);
+            const published = execFileSync('git', ['ls-tree', '--name-only', `${ref}:${dir}`], { cwd: ROOT, encoding: 'utf-8' })
+                .split('\n')
+                .filter(f => f.endsWith('.schema.json'));
+
+            let breaking = 0;
+            for (const fileName of published) {
+                const before = JSON.parse(execFileSync('git', ['show', `${ref}:${dir}/${fileName}`], { cwd: ROOT, encoding: 'utf-8' }));
+                const changes = fs.existsSync(path.join(SCHEMAS_DIR, fileName))
+                    ? breakingChanges(before, readSchema(fileName))
+                    : ['schema removed'];
+                if (changes.length === 0) continue;
+                breaking += changes.length;
+                console.error(`${fileName}:`);
+                changes.forEach(c => console.error(`  ${c}`));
+            }
+
+            if (breaking > 0) {
+                console.error(`\n${breaking} breaking changes since ${ref}. Restore the published schema and put the changes`);
+                console.error('in a new <artifact>.v<major + 1>.schema.json, bumping the artifact\'s version to match.');
+                process.exit(1);
+            }
+            console.log(`${published.length} published schemas: no breaking changes since ${ref}`);
+        } else {
+            throw new Error(`Unknown command ${command}; expected breaking`);
+        }
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : err);
+        process.exit(1);
+    }
+}
@@ -4,256 +4,55 @@
  * 
  * This script maps chain IDs to their corresponding icon slugs so users
  * can look up chain icons by chain ID instead of knowing the exact slug.
+ * Mappings are read from docs/chain-mappings.json (see chain-mappings.ts).
  * 
  * Usage:
  *   DRY_RUN=true npx tsx scripts/setup-chain-mappings.ts   # Preview only
  *   npx tsx scripts/setup-chain-mappings.ts                 # Deploy mappings
+ *   SIMULATE=anvil ANVIL_FORK_URL=<rpc> npx tsx scripts/setup-chain-mappings.ts  # Run on a local fork
+ *
+ * Environment:
+ *   MAX_GAS_PRICE_GWEI - maxFeePerGas cap (default: none)
+ *   PRIORITY_FEE_GWEI - Fixed priority fee (default: node estimate)
+ *   MAX_SPEND_ETH - Stop once this much ETH has been spent (default: unlimited)
+ *   SIMULATE=anvil - Execute against a local anvil node as the impersonated owner
+ *                    (see anvil-simulation.ts for ANVIL_FORK_URL / ANVIL_STATE)
+ *   SIGNER - turnkey | keystore | private-key | unsigned | safe (default: turnkey; see signer.ts)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { createPublicClient, http, encodeFunctionData, formatGwei, keccak256, toHex } from 'viem';
+import { createPublicClient, http, encodeFunctionData, formatEther } from 'viem';
 import { mainnet } from 'viem/chains';
-import { createTurnkeySigner } from './turnkey-signer';
+import { createSigner, describeSigner } from './signer';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { loadChainMappings } from './chain-mappings';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { createIconRegistryClient, slugToHash } from './icon-registry-client';
+import { createTxManager, SpendCapExceededError, StuckTransactionError, txManagerEnv } from './tx-manager';
 
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
 const DRY_RUN = process.env.DRY_RUN === 'true';
 const BATCH_SIZE = 20; // mapChain calls per tx (uses mapChainBatch if available, else individual)
 
-const ICON_REGISTRY_ABI = [
-    {
-        name: 'mapChain',
-        type: 'function',
-        inputs: [
-            { name: 'chainId', type: 'uint256' },
-            { name: 'slug', type: 'string' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'chainToIcon',
-        type: 'function',
-        inputs: [{ name: 'chainId', type: 'uint256' }],
-        outputs: [{ type: 'bytes32' }],
-    },
-    {
-        name: 'icons',
-        type: 'function',
-        inputs: [{ name: 'slugHash', type: 'bytes32' }],
-        outputs: [
-            { name: 'pointer', type: 'address' },
-            { name: 'size', type: 'uint32' },
-            { name: 'width', type: 'uint32' },
-            { name: 'height', type: 'uint32' },
-        ],
-    },
-] as const;
-
-// Chain ID to slug mappings (generated from DefiLlama chainlist)
-const CHAIN_MAPPINGS: Array<{ chainId: number; slug: string }> = [
-    { chainId: 1, slug: "chains/rszethereum" },
-    { chainId: 10, slug: "chains/rszoptimism" },
-    { chainId: 14, slug: "chains/rszflare" },
-    { chainId: 19, slug: "chains/rszsongbird" },
-    { chainId: 20, slug: "chains/rszelastos" },
-    { chainId: 25, slug: "chains/rszcronos" },
-    { chainId: 30, slug: "chains/rszrsk" },
-    { chainId: 40, slug: "chains/rsztelos" },
-    { chainId: 42, slug: "chains/rszlukso" },
-    { chainId: 44, slug: "chains/rszcrab" },
-    { chainId: 46, slug: "chains/rszdarwinia" },
-    { chainId: 50, slug: "chains/rszxdc" },
-    { chainId: 52, slug: "chains/rszcsc" },
-    { chainId: 56, slug: "chains/rszbinance" },
-    { chainId: 57, slug: "chains/rszsyscoin" },
-    { chainId: 58, slug: "chains/rszontologyevm" },
-    { chainId: 60, slug: "chains/rszgochain" },
-    { chainId: 61, slug: "chains/rszethereumclassic" },
-    { chainId: 66, slug: "chains/rszokexchain" },
-    { chainId: 82, slug: "chains/rszmeter" },
-    { chainId: 88, slug: "chains/rsztomochain" },
-    { chainId: 100, slug: "chains/rszxdai" },
-    { chainId: 106, slug: "chains/rszvelas" },
-    { chainId: 108, slug: "chains/rszthundercore" },
-    { chainId: 119, slug: "chains/rszenuls" },
-    { chainId: 122, slug: "chains/rszfuse" },
-    { chainId: 128, slug: "chains/rszheco" },
-    { chainId: 130, slug: "chains/rszunichain" },
-    { chainId: 137, slug: "chains/rszpolygon" },
-    { chainId: 143, slug: "chains/rszmonad" },
-    { chainId: 146, slug: "chains/rszsonic" },
-    { chainId: 148, slug: "chains/rszshimmerevm" },
-    { chainId: 169, slug: "chains/rszmanta" },
-    { chainId: 173, slug: "chains/rszeni" },
-    { chainId: 185, slug: "chains/rszmint" },
-    { chainId: 199, slug: "chains/rszbittorrent" },
-    { chainId: 204, slug: "chains/rszopbnb" },
-    { chainId: 207, slug: "chains/rszvinuchain" },
-    { chainId: 225, slug: "chains/rszlachain" },
-    { chainId: 232, slug: "chains/rszlens" },
-    { chainId: 246, slug: "chains/rszenergyweb" },
-    { chainId: 248, slug: "chains/rszoasys" },
-    { chainId: 250, slug: "chains/rszfantom" },
-    { chainId: 252, slug: "chains/rszfraxtal" },
-    { chainId: 254, slug: "chains/rszswan" },
-    { chainId: 255, slug: "chains/rszkroma" },
-    { chainId: 269, slug: "chains/rszhpb" },
-    { chainId: 277, slug: "chains/rszprom" },
-    { chainId: 288, slug: "chains/rszboba" },
-    { chainId: 291, slug: "chains/rszorderly" },
-    { chainId: 295, slug: "chains/rszhedera" },
-    { chainId: 314, slug: "chains/rszfilecoin" },
-    { chainId: 321, slug: "chains/rszkucoin" },
-    { chainId: 336, slug: "chains/rszshiden" },
-    { chainId: 360, slug: "chains/rszshape" },
-    { chainId: 361, slug: "chains/rsztheta" },
-    { chainId: 369, slug: "chains/rszpulse" },
-    { chainId: 388, slug: "chains/rszcronoszkevm" },
-    { chainId: 416, slug: "chains/rszsx" },
-    { chainId: 478, slug: "chains/rszformnetwork" },
-    { chainId: 570, slug: "chains/rszrollux" },
-    { chainId: 592, slug: "chains/rszastar" },
-    { chainId: 648, slug: "chains/rszendurance" },
-    { chainId: 690, slug: "chains/rszredstone" },
-    { chainId: 698, slug: "chains/rszmatchain" },
-    { chainId: 747, slug: "chains/rszflow" },
-    { chainId: 820, slug: "chains/rszcallisto" },
-    { chainId: 841, slug: "chains/rsztaraxa" },
-    { chainId: 888, slug: "chains/rszwanchain" },
-    { chainId: 957, slug: "chains/rszlyra-chain" },
-    { chainId: 996, slug: "chains/rszbifrost" },
-    { chainId: 999, slug: "chains/rszhyperliquid" },
-    { chainId: 1024, slug: "chains/rszclv" },
-    { chainId: 1030, slug: "chains/rszconflux" },
-    { chainId: 1088, slug: "chains/rszmetis" },
-    { chainId: 1101, slug: "chains/rszpolygonzkevm" },
-    { chainId: 1116, slug: "chains/rszcore" },
-    { chainId: 1135, slug: "chains/rszlisk" },
-    { chainId: 1230, slug: "chains/rszultron" },
-    { chainId: 1284, slug: "chains/rszmoonbeam" },
-    { chainId: 1285, slug: "chains/rszmoonriver" },
-    { chainId: 1329, slug: "chains/rszsei" },
-    { chainId: 1453, slug: "chains/rszmeta" },
-    { chainId: 1514, slug: "chains/rszstory" },
-    { chainId: 1625, slug: "chains/rszgravity-bridge" },
-    { chainId: 1750, slug: "chains/rszmetal" },
-    { chainId: 1890, slug: "chains/rszlightlink" },
-    { chainId: 1996, slug: "chains/rszsanko" },
-    { chainId: 2000, slug: "chains/rszdogechain" },
-    { chainId: 2020, slug: "chains/rszronin" },
-    { chainId: 2040, slug: "chains/rszvana" },
-    { chainId: 2221, slug: "chains/rszkava" },  // Kava testnet -> Kava icon
-    { chainId: 2222, slug: "chains/rszkava" },
-    { chainId: 2358, slug: "chains/rszkroma" },
-    { chainId: 2741, slug: "chains/rszabstract" },
-    { chainId: 3338, slug: "chains/rszpeaq" },
-    { chainId: 3776, slug: "chains/rszastar-zkevm" },
-    { chainId: 4200, slug: "chains/rszmerlin" },
-    { chainId: 4337, slug: "chains/rszbeam" },
-    { chainId: 4689, slug: "chains/rsziotex" },
-    { chainId: 5000, slug: "chains/rszmantle" },
-    { chainId: 5165, slug: "chains/rszbahamut" },
-    { chainId: 6969, slug: "chains/rsztombchain" },
-    { chainId: 7000, slug: "chains/rszzetachain" },
-    { chainId: 7171, slug: "chains/rszbitrock" },
-    { chainId: 7560, slug: "chains/rszcyber" },
-    { chainId: 7700, slug: "chains/rszcanto" },
-    { chainId: 7887, slug: "chains/rszkinto" },
-    { chainId: 8008, slug: "chains/rszpolynomial" },
-    { chainId: 8217, slug: "chains/rszklaytn" },
-    { chainId: 8329, slug: "chains/rszlorenzo" },
-    { chainId: 8333, slug: "chains/rszb3" },
-    { chainId: 8428, slug: "chains/rszclique" },
-    { chainId: 8453, slug: "chains/rszbase" },
-    { chainId: 8822, slug: "chains/rsziota" },
-    { chainId: 9001, slug: "chains/rszevmos" },
-    { chainId: 9790, slug: "chains/rszcarbon" },
-    { chainId: 10000, slug: "chains/rszsmartbch" },
-    { chainId: 10143, slug: "chains/rszmonad" },  // Monad testnet -> Monad icon
-    { chainId: 11011, slug: "chains/rszshape" },
-    { chainId: 11235, slug: "chains/rszhaqq" },
-    { chainId: 12324, slug: "chains/rszl3x-network" },
-    { chainId: 12553, slug: "chains/rszrss3" },
-    { chainId: 13371, slug: "chains/rszimmutablezkevm" },
-    { chainId: 15557, slug: "chains/rszeos" },
-    { chainId: 17000, slug: "chains/rszethereum" },  // Holesky -> Ethereum icon
-    { chainId: 17777, slug: "chains/rszeos" },
-    { chainId: 22222, slug: "chains/rszhypr" },
-    { chainId: 22776, slug: "chains/rszmap-protocol" },
-    { chainId: 23294, slug: "chains/rszoasissapphire" },
-    { chainId: 23888, slug: "chains/rszblast" },  // Blast testnet -> Blast icon
-    { chainId: 32520, slug: "chains/rszbitgert" },
-    { chainId: 32659, slug: "chains/rszfusion" },
-    { chainId: 32769, slug: "chains/rszzilliqa" },
-    { chainId: 33979, slug: "chains/rszfunkichain" },
-    { chainId: 34443, slug: "chains/rszmode" },
-    { chainId: 39797, slug: "chains/rszenergi" },
-    { chainId: 41455, slug: "chains/rszaleph-zero-evm" },
-    { chainId: 42161, slug: "chains/rszarbitrum" },
-    { chainId: 42170, slug: "chains/rszarbitrumnova" },
-    { chainId: 42220, slug: "chains/rszcelo" },
-    { chainId: 42262, slug: "chains/rszoasis-emerald" },
-    { chainId: 42766, slug: "chains/rszzkfair" },
-    { chainId: 43113, slug: "chains/rszavalanche" },  // Fuji -> Avalanche icon
-    { chainId: 43114, slug: "chains/rszavalanche" },
-    { chainId: 43288, slug: "chains/rszboba" },  // Boba Fuji -> Boba icon
-    { chainId: 44787, slug: "chains/rszcelo" },  // Celo Alfajores -> Celo icon
-    { chainId: 47805, slug: "chains/rszrei" },
-    { chainId: 48900, slug: "chains/rszzircuit" },
-    { chainId: 52014, slug: "chains/rszelectroneum" },
-    { chainId: 53935, slug: "chains/rszdfk" },
-    { chainId: 55244, slug: "chains/rszsuperposition" },
-    { chainId: 57073, slug: "chains/rszink" },
-    { chainId: 59144, slug: "chains/rszlinea" },
-    { chainId: 60808, slug: "chains/rszbob" },
-    { chainId: 71402, slug: "chains/rszgodwoken" },
-    { chainId: 80002, slug: "chains/rszpolygon" },  // Polygon Amoy -> Polygon icon
-    { chainId: 80084, slug: "chains/rszberachain" },  // Berachain testnet -> Berachain icon
-    { chainId: 80094, slug: "chains/rszberachain" },
-    { chainId: 81457, slug: "chains/rszblast" },
-    { chainId: 88888, slug: "chains/rszchiliz" },
-    { chainId: 98866, slug: "chains/rszplume" },
-    { chainId: 100000, slug: "chains/rszq" },
-    { chainId: 128123, slug: "chains/rszetherlink" },
-    { chainId: 131313, slug: "chains/rszodyssey" },
-    { chainId: 167000, slug: "chains/rsztaiko" },
-    { chainId: 200901, slug: "chains/rszbitlayer" },
-    { chainId: 210425, slug: "chains/rszplaton" },
-    { chainId: 245022934, slug: "chains/rszneon" },
-    { chainId: 534352, slug: "chains/rszscroll" },
-    { chainId: 555666, slug: "chains/rszeclipse" },
-    { chainId: 622277, slug: "chains/rszhypr" },
-    { chainId: 660279, slug: "chains/rszxai" },
-    { chainId: 713715, slug: "chains/rszsei" },  // Sei devnet -> Sei icon
-    { chainId: 810180, slug: "chains/rszzklink-nova" },
-    { chainId: 7225878, slug: "chains/rszsaakuru" },
-    { chainId: 7777777, slug: "chains/rszzora" },
-    { chainId: 11155111, slug: "chains/rszethereum" },  // Sepolia -> Ethereum icon
-    { chainId: 11155420, slug: "chains/rszoptimism" },  // OP Sepolia -> Optimism icon
-    { chainId: 245022926, slug: "chains/rszneon" },  // Neon devnet -> Neon icon
-    { chainId: 666666666, slug: "chains/rszdegen" },
-    { chainId: 728126428, slug: "chains/rsztron" },
-    { chainId: 1313161554, slug: "chains/rszaurora" },
-    { chainId: 1666600000, slug: "chains/rszharmony" },
-];
-
 async function main() {
     console.log('=== IconRegistry Chain Mapping Setup ===\n');
+    const mappings = loadChainMappings();
     console.log(`Dry run: ${DRY_RUN}`);
-    console.log(`Total mappings: ${CHAIN_MAPPINGS.length}`);
+    console.log(`Total mappings: ${mappings.length}`);
     console.log(`RPC: ${RPC_URL}\n`);
 
-    const publicClient = createPublicClient({
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+    const publicClient = sim?.publicClient ?? createPublicClient({
         chain: mainnet,
         transport: http(RPC_URL),
     });
 
     // Check which mappings already exist
     console.log('Checking existing mappings...');
-    const toSet: typeof CHAIN_MAPPINGS = [];
+    const toSet: typeof mappings = [];
     
-    for (const mapping of CHAIN_MAPPINGS) {
+    for (const mapping of mappings) {
         const existing = await publicClient.readContract({
             address: PROXY_ADDRESS,
             abi: ICON_REGISTRY_ABI,
@@ -261,31 +60,35 @@ async function main() {
             args: [BigInt(mapping.chainId)],
         });
         
-        const expectedHash = keccak256(toHex(mapping.slug));
+        const expectedHash = slugToHash(mapping.slug);
         if (existing.toLowerCase() !== expectedHash.toLowerCase()) {
             toSet.push(mapping);
         }
     }
 
-    console.log(`Already set: ${CHAIN_MAPPINGS.length - toSet.length}`);
+    console.log(`Already set: ${mappings.length - toSet.length}`);
     console.log(`Need to set: ${toSet.length}\n`);
 
     if (toSet.length === 0) {
         console.log('All chain mappings already set!');
+        await sim?.finish();
         return;
     }
 
-    if (DRY_RUN) {
+    if (DRY_RUN && !sim) {
         console.log('Dry run - would set these mappings:');
         toSet.slice(0, 20).forEach(m => console.log(`  ${m.chainId} => ${m.slug}`));
         if (toSet.length > 20) console.log(`  ... and ${toSet.length - 20} more`);
         return;
     }
 
-    // Initialize Turnkey signer
-    console.log('Initializing Turnkey signer...');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer: ${address}\n`);
+    // Initialize the configured signer (or the impersonated owner when simulating)
+    console.log(sim ? 'Using impersonated owner...' : 'Initializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}\n`);
+
+    const txManager = createTxManager({ publicClient, walletClient, ...txManagerEnv(), exportOnly: signer.exportOnly });
 
     // Send transactions one by one (mapChain doesn't have batch version)
     let success = 0;
@@ -301,33 +104,17 @@ async function main() {
                 args: [BigInt(mapping.chainId), mapping.slug],
             });
 
-            const gasEstimate = await publicClient.estimateGas({
-                account: address,
-                to: PROXY_ADDRESS,
-                data,
-            });
-
-            const nonce = await publicClient.getTransactionCount({ address });
-            const gasPrice = await publicClient.getGasPrice();
-
-            const txHash = await walletClient.sendTransaction({
-                to: PROXY_ADDRESS,
-                data,
-                gas: gasEstimate + (gasEstimate * 20n / 100n),
-                gasPrice: gasPrice + (gasPrice * 10n / 100n),
-                nonce,
-            });
-
-            await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                timeout: 60_000,
-            });
+            const { receipt } = await txManager.send({ to: PROXY_ADDRESS, data });
+            if (receipt && receipt.status !== 'success') {
+                throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+            }
 
             success++;
             console.log(`[${i + 1}/${toSet.length}] ✓ Chain ${mapping.chainId} => ${mapping.slug}`);
         } catch (err: any) {
             failed++;
             console.log(`[${i + 1}/${toSet.length}] ✗ Chain ${mapping.chainId} failed: ${err.message?.slice(0, 50)}`);
+            if (err instanceof SpendCapExceededError || err instanceof StuckTransactionError) break;
         }
 
         // Small delay between txs
@@ -337,6 +124,19 @@ async function main() {
     console.log('\n=== Complete ===');
     console.log(`Success: ${success}`);
     console.log(`Failed: ${failed}`);
+    console.log(`Spent: ${formatEther(txManager.spent)} ETH`);
+    if (signer.exportOnly) console.log(`Transactions exported to ${signer.exportFile}`);
+
+    if (sim) {
+        const registry = createIconRegistryClient({ publicClient });
+        // Read back every mapping we tried to set
+        let mapped = 0;
+        for (const mapping of toSet) {
+            const slugHash = await registry.chainToIcon(mapping.chainId);
+            if (slugHash.toLowerCase() === slugToHash(mapping.slug).toLowerCase()) mapped++;
+        }
+        await sim.finish({ 'Mappings verified': `${mapped}/${toSet.length}` });
+    }
 }
 
 main().catch(err => {
@@ -8,70 +8,41 @@
  * Usage:
  *   DRY_RUN=true npx tsx scripts/setup-token-mappings.ts   # Preview only
  *   npx tsx scripts/setup-token-mappings.ts                 # Deploy mappings
+ *   SIMULATE=anvil ANVIL_FORK_URL=<rpc> npx tsx scripts/setup-token-mappings.ts  # Run on a local fork
  * 
  * Options:
  *   DRY_RUN=true         - Preview without deploying
  *   BATCH_SIZE=100       - Mappings per transaction (default: 100)
  *   MAX_GAS_PRICE_GWEI   - Max gas price to wait for (default: 0.05)
- *   RESUME_FROM=N        - Resume from batch N
+ *   SIMULATE=anvil       - Execute against a local anvil node as the impersonated owner
+ *   SIGNER               - turnkey | keystore | private-key | unsigned | safe (default: turnkey; see signer.ts)
+ *
+ * Re-running resumes from journals/token-mappings.json (override with JOURNAL_FILE).
+ * Refuses to run while docs/token-mappings.json has fuzzy matches below
+ * REVIEW_CONFIDENCE that weren't reviewed (see token-mappings.ts).
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
-import { createPublicClient, http, encodeFunctionData, formatGwei, parseGwei, keccak256, toHex } from 'viem';
+import { createPublicClient, http, encodeFunctionData, formatGwei, parseGwei, type PublicClient } from 'viem';
 import { mainnet } from 'viem/chains';
-import { createTurnkeySigner } from './turnkey-signer';
+import { createSigner, describeSigner } from './signer';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { openJournal, describeReconcile } from './deploy-journal';
+import { createIconRegistryClient, ICON_REGISTRY_ABI, PROXY_ADDRESS, slugToHash } from './icon-registry-client';
+import {
+    REVIEW_CONFIDENCE,
+    TOKEN_MAPPINGS_FILE,
+    loadTokenMappingsFile,
+    needsReview,
+    tokenMappingKey,
+    type TokenMapping,
+} from './token-mappings';
 
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const RPC_URL = process.env.RPC_URL || 'https://ethereum-rpc.publicnode.com';
 const FALLBACK_RPC_URL = 'https://eth.drpc.org';
 const DRY_RUN = process.env.DRY_RUN === 'true';
 const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '100');
 const MAX_GAS_PRICE_GWEI = parseFloat(process.env.MAX_GAS_PRICE_GWEI || '0.05');
-const RESUME_FROM = parseInt(process.env.RESUME_FROM || '0');
-
-const MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'token-mappings.json');
-
-const ICON_REGISTRY_ABI = [
-    {
-        name: 'mapTokensBatch',
-        type: 'function',
-        inputs: [
-            { name: 'tokens', type: 'address[]' },
-            { name: 'chainIds', type: 'uint256[]' },
-            { name: 'slugList', type: 'string[]' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'tokenToIcon',
-        type: 'function',
-        inputs: [
-            { name: 'token', type: 'address' },
-            { name: 'chainId', type: 'uint256' },
-        ],
-        outputs: [{ type: 'bytes32' }],
-    },
-    {
-        name: 'icons',
-        type: 'function',
-        inputs: [{ name: 'slugHash', type: 'bytes32' }],
-        outputs: [
-            { name: 'pointer', type: 'address' },
-            { name: 'size', type: 'uint32' },
-            { name: 'width', type: 'uint32' },
-            { name: 'height', type: 'uint32' },
-        ],
-    },
-] as const;
-
-interface TokenMapping {
-    token: string;
-    chainId: number;
-    slug: string;
-    name: string;
-    symbol: string;
-}
 
 async function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -87,42 +58,55 @@ async function createRpcClient(primary: string, fallback: string) {
 
 async function main() {
     console.log('=== IconRegistry Token Mapping Setup ===\n');
-    console.log(`Mode: ${DRY_RUN ? 'DRY RUN' : 'LIVE DEPLOYMENT'}`);
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+    console.log(`Mode: ${sim ? 'SIMULATE (anvil)' : DRY_RUN ? 'DRY RUN' : 'LIVE DEPLOYMENT'}`);
     console.log(`Batch size: ${BATCH_SIZE}`);
     console.log(`Max gas: ${MAX_GAS_PRICE_GWEI} gwei`);
     console.log(`RPC: ${RPC_URL} (fallback: ${FALLBACK_RPC_URL})\n`);
 
     // Load mappings
-    if (!fs.existsSync(MAPPINGS_FILE)) {
-        console.error(`Mappings file not found: ${MAPPINGS_FILE}`);
+    if (!fs.existsSync(TOKEN_MAPPINGS_FILE)) {
+        console.error(`Mappings file not found: ${TOKEN_MAPPINGS_FILE}`);
         console.error('Run: npx tsx scripts/sync-token-mappings.ts first');
         process.exit(1);
     }
 
-    const data = JSON.parse(fs.readFileSync(MAPPINGS_FILE, 'utf-8'));
-    const allMappings: TokenMapping[] = data.mappings;
-    console.log(`Loaded ${allMappings.length} mappings from ${MAPPINGS_FILE}\n`);
+    const allMappings: TokenMapping[] = loadTokenMappingsFile().mappings;
+    console.log(`Loaded ${allMappings.length} mappings from ${TOKEN_MAPPINGS_FILE}\n`);
+
+    // Fuzzy matches below the review threshold must be accepted by a person first
+    const unreviewed = allMappings.filter(needsReview);
+    if (unreviewed.length > 0) {
+        console.error(`Refusing to deploy ${unreviewed.length} unreviewed mappings with confidence < ${REVIEW_CONFIDENCE}:`);
+        unreviewed.slice(0, 10).forEach(m => {
+            console.error(`  ${m.token} (chain ${m.chainId}) => ${m.slug} (${m.method} ${m.confidence})`);
+        });
+        if (unreviewed.length > 10) console.error(`  ... and ${unreviewed.length - 10} more`);
+        console.error('Check each icon and set "reviewed": true, or move the entry to docs/pending-token-mappings.json');
+        process.exit(1);
+    }
 
-    const publicClient = await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
+    const publicClient = sim?.publicClient ?? await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
+    const registry = createIconRegistryClient({ publicClient: publicClient as PublicClient });
+
+    // Reconcile batches left over from a previous run
+    const journal = openJournal('token-mappings', sim?.journalFile('token-mappings'));
+    console.log(`Journal: ${journal.file}`);
+    const reconciled = await journal.reconcile(publicClient as PublicClient);
+    console.log(`Journal reconciled: ${describeReconcile(reconciled)}\n`);
 
     // Check which slugs exist on-chain and which mappings are already set
     console.log('Checking on-chain state...');
-    const toSet: TokenMapping[] = [];
+    let toSet: TokenMapping[] = [];
     const missingIcons: string[] = [];
 
     for (const mapping of allMappings) {
         // Check if slug exists
-        const slugHash = keccak256(toHex(mapping.slug));
+        const slugHash = slugToHash(mapping.slug);
         let iconExists = false;
         
         try {
-            const iconData = await publicClient.readContract({
-                address: PROXY_ADDRESS,
-                abi: ICON_REGISTRY_ABI,
-                functionName: 'icons',
-                args: [slugHash],
-            });
-            iconExists = iconData[0] !== '0x0000000000000000000000000000000000000000';
+            iconExists = await registry.hasIcon(slugHash);
         } catch {
             iconExists = false;
         }
@@ -136,12 +120,7 @@ async function main() {
 
         // Check if mapping already exists
         try {
-            const existing = await publicClient.readContract({
-                address: PROXY_ADDRESS,
-                abi: ICON_REGISTRY_ABI,
-                functionName: 'tokenToIcon',
-                args: [mapping.token as `0x${string}`, BigInt(mapping.chainId)],
-            });
+            const existing = await registry.tokenToIcon(mapping.token as `0x${string}`, mapping.chainId);
 
             // If mapping exists but points to different slug, update it
             if (existing.toLowerCase() !== slugHash.toLowerCase()) {
@@ -153,7 +132,13 @@ async function main() {
         }
     }
 
-    console.log(`Already set: ${allMappings.length - toSet.length - missingIcons.length}`);
+    const journaled = toSet.length;
+    toSet = journal.remaining(toSet, tokenMappingKey);
+    if (journaled !== toSet.length) {
+        console.log(`Skipping ${journaled - toSet.length} mappings already confirmed or in flight per journal`);
+    }
+
+    console.log(`Already set: ${allMappings.length - journaled - missingIcons.length}`);
     console.log(`Need to set: ${toSet.length}`);
     console.log(`Missing icons: ${missingIcons.length}`);
     if (missingIcons.length > 0) {
@@ -164,6 +149,7 @@ async function main() {
 
     if (toSet.length === 0) {
         console.log('All token mappings already set!');
+        await sim?.finish();
         return;
     }
 
@@ -177,7 +163,7 @@ async function main() {
     }
     console.log('');
 
-    if (DRY_RUN) {
+    if (DRY_RUN && !sim) {
         // Estimate cost
         const gasPerMapping = 45000; // ~45k gas per mapping
         const totalGas = toSet.length * gasPerMapping;
@@ -189,25 +175,28 @@ async function main() {
         console.log(`Batches: ${numBatches}`);
         console.log(`Est. gas: ${totalGas.toLocaleString()}`);
         console.log(`Est. cost: ~${ethCost.toFixed(6)} ETH at ${MAX_GAS_PRICE_GWEI} gwei`);
-        console.log('\nRun without DRY_RUN=true to deploy.');
+        console.log('\nRun with SIMULATE=anvil for exact gas, or without DRY_RUN=true to deploy.');
         return;
     }
 
-    // Initialize Turnkey signer
-    console.log('Initializing Turnkey signer...');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer: ${address}\n`);
+    // Initialize the configured signer (or the impersonated owner when simulating)
+    console.log(sim ? 'Using impersonated owner...' : 'Initializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}\n`);
 
     const totalBatches = Math.ceil(toSet.length / BATCH_SIZE);
+    const plannedBatches = Array.from({ length: totalBatches }, (_, i) =>
+        journal.plan(toSet.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE).map(tokenMappingKey))
+    );
     let successCount = 0;
     let failCount = 0;
     let totalGasUsed = 0n;
 
     for (let batchNum = 0; batchNum < totalBatches; batchNum++) {
-        if (batchNum < RESUME_FROM) continue;
-
         const startIdx = batchNum * BATCH_SIZE;
         const batch = toSet.slice(startIdx, startIdx + BATCH_SIZE);
+        const entry = plannedBatches[batchNum];
 
         console.log(`\n[Batch ${batchNum + 1}/${totalBatches}] Preparing ${batch.length} mappings...`);
 
@@ -251,6 +240,14 @@ async function main() {
                 nonce,
             });
 
+            // Exported, not broadcast: the entry stays planned and is discarded on the next run
+            if (signer.exportOnly) {
+                successCount += batch.length;
+                console.log(`Exported: ${txHash} (${batch.length} mappings)`);
+                continue;
+            }
+
+            journal.markSent(entry, { hash: txHash, from: address, nonce });
             console.log(`Tx: ${txHash}`);
 
             const receipt = await publicClient.waitForTransactionReceipt({
@@ -258,6 +255,11 @@ async function main() {
                 timeout: 300_000,
             });
 
+            journal.markConfirmed(entry, receipt);
+            if (receipt.status !== 'success') {
+                throw new Error(`Transaction reverted: ${txHash}`);
+            }
+
             totalGasUsed += receipt.gasUsed;
             successCount += batch.length;
 
@@ -267,7 +269,9 @@ async function main() {
         } catch (err: any) {
             console.error(`\n✗ Batch ${batchNum + 1} failed: ${err.message?.slice(0, 100)}`);
             failCount += batch.length;
-            console.log(`Resume with: RESUME_FROM=${batchNum} npx tsx scripts/setup-token-mappings.ts\n`);
+            // A receipt timeout leaves the batch 'sent' so the next run reconciles it
+            if (entry.state === 'planned') journal.markFailed(entry, err.message ?? String(err));
+            console.log('Re-run to retry; the journal skips batches that already landed.\n');
         }
 
         await sleep(500);
@@ -281,6 +285,20 @@ async function main() {
     console.log(`Failed: ${failCount}`);
     console.log(`Gas used: ${Number(totalGasUsed).toLocaleString()}`);
     console.log(`Cost: ~${ethCost.toFixed(6)} ETH`);
+
+    if (signer.exportOnly) {
+        console.log(`\nTransactions exported to ${signer.exportFile}`);
+    }
+
+    if (sim) {
+        // Read back every mapping we tried to set
+        let mapped = 0;
+        for (const mapping of toSet) {
+            const slugHash = await registry.tokenToIcon(mapping.token as `0x${string}`, mapping.chainId);
+            if (slugHash.toLowerCase() === slugToHash(mapping.slug).toLowerCase()) mapped++;
+        }
+        await sim.finish({ 'Mappings verified': `${mapped}/${toSet.length}` });
+    }
 }
 
 main().catch(err => {
@@ -0,0 +1,358 @@
+/**
+ * Signer Factory
+ *
+ * One entry point for obtaining the WalletClient the deployment scripts send
+ * with. The backend is picked by config (SIGNER env var):
+ *
+ *   turnkey      - Turnkey secure enclave (default; see turnkey-signer.ts)
+ *   keystore     - Encrypted JSON keystore (geth / `cast wallet` format, scrypt or pbkdf2)
+ *   private-key  - Raw private key; refused unless the RPC is a local devnet
+ *   unsigned     - Nothing is signed or broadcast: each transaction is appended
+ *                  to an export file for signing elsewhere
+ *   safe         - Transactions are written as Safe Transaction Builder bundles
+ *                  for a multisig owner (see safe-bundle.ts)
+ *
+ * Usage:
+ *   const signer = await createSigner({ rpcUrl: RPC_URL });
+ *   const hash = await signer.client.sendTransaction({ ... });
+ *   if (signer.exportOnly) console.log(`Exported to ${signer.exportFile}`);
+ *
+ * Environment:
+ *   SIGNER                     - turnkey | keystore | private-key | unsigned | safe (default: turnkey)
+ *   SIGNER_KEYSTORE            - Path to the keystore JSON (keystore)
+ *   SIGNER_KEYSTORE_PASSWORD   - Keystore password, or SIGNER_KEYSTORE_PASSWORD_FILE
+ *   SIGNER_PRIVATE_KEY         - 0x-prefixed key (private-key)
+ *   SIGNER_ADDRESS             - Sender to export for: the owner EOA or Safe (unsigned, safe;
+ *                                default: registry owner)
+ *   SIGNER_EXPORT_FILE         - Export path (unsigned: file, default exports/unsigned-<timestamp>.json;
+ *                                safe: directory, default exports/safe-<timestamp>/)
+ *   TURNKEY_*                  - See turnkey-signer.ts
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    concat,
+    createPublicClient,
+    createWalletClient,
+    custom,
+    http,
+    keccak256,
+    serializeTransaction,
+    type Chain,
+    type WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry, localhost, mainnet } from 'viem/chains';
+import { batchPackerEnv } from './batch-packer';
+import { createIconRegistryClient } from './icon-registry-client';
+import { createSafeBundleWriter } from './safe-bundle';
+
+export const EXPORTS_DIR = path.join(__dirname, '..', 'exports');
+
+export type SignerBackend = 'turnkey' | 'keystore' | 'private-key' | 'unsigned' | 'safe';
+
+export interface SignerConfig {
+    backend?: SignerBackend;
+    rpcUrl?: string;
+    /** Known chain ID; skips the RPC lookup so offline signing needs no node */
+    chainId?: number;
+    keystorePath?: string;
+    keystorePassword?: string;
+    privateKey?: `0x${string}`;
+    /** Sender recorded in unsigned exports; the Safe for safe bundles */
+    address?: `0x${string}`;
+    exportFile?: string;
+}
+
+export interface Signer {
+    backend: SignerBackend | 'impersonated';
+    client: WalletClient;
+    address: `0x${string}`;
+    /** True when sendTransaction only records the transaction; never wait for a receipt */
+    exportOnly: boolean;
+    /** Export file (unsigned) or bundle directory (safe) */
+    exportFile?: string;
+}
+
+export interface UnsignedTransaction {
+    nonce: number;
+    to: `0x${string}` | null;
+    data: `0x${string}`;
+    value: string;
+    gas: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    /** EIP-1559 payload without signature, ready for an offline signer */
+    serialized: `0x${string}`;
+    /** keccak256 of `serialized`; what sendTransaction returned to the script */
+    hash: `0x${string}`;
+}
+
+export interface UnsignedExport {
+    version: 1;
+    chainId: number;
+    from: `0x${string}`;
+    createdAt: string;
+    transactions: UnsignedTransaction[];
+}
+
+const SIGNER_BACKENDS: SignerBackend[] = ['turnkey', 'keystore', 'private-key', 'unsigned', 'safe'];
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]', '0.0.0.0']);
+const DEVNET_CHAIN_IDS = new Set<number>([foundry.id, localhost.id]);
+
+export function signerEnv(): SignerConfig {
+    const backend = (process.env.SIGNER || 'turnkey') as SignerBackend;
+    if (!SIGNER_BACKENDS.includes(backend)) {
+        throw new Error(`Unknown SIGNER "${backend}". Expected one of: ${SIGNER_BACKENDS.join(', ')}`);
+    }
+
+    const passwordFile = process.env.SIGNER_KEYSTORE_PASSWORD_FILE;
+    return {
+        backend,
+        keystorePath: process.env.SIGNER_KEYSTORE,
+        keystorePassword: passwordFile
+            ? fs.readFileSync(passwordFile, 'utf-8').trim()
+            : process.env.SIGNER_KEYSTORE_PASSWORD,
+        privateKey: process.env.SIGNER_PRIVATE_KEY as `0x${string}` | undefined,
+        address: process.env.SIGNER_ADDRESS as `0x${string}` | undefined,
+        exportFile: process.env.SIGNER_EXPORT_FILE,
+    };
+}
+
+function chainFor(chainId: number): Chain {
+    if (chainId === foundry.id) return foundry;
+    if (chainId === localhost.id) return localhost;
+    if (chainId === mainnet.id) return mainnet;
+    throw new Error(`Unsupported chain ID ${chainId}`);
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore.
+ */
+export function decryptKeystore(json: string, password: string): `0x${string}` {
+    const keystore = JSON.parse(json);
+    const params = keystore.crypto ?? keystore.Crypto;
+    if (keystore.version !== 3 || !params) {
+        throw new Error('Unsupported keystore: expected version 3');
+    }
+    if (params.cipher !== 'aes-128-ctr') {
+        throw new Error(`Unsupported keystore cipher: ${params.cipher}`);
+    }
+
+    const kdf = params.kdfparams;
+    const salt = Buffer.from(kdf.salt, 'hex');
+    const secret = Buffer.from(password.normalize('NFKC'), 'utf-8');
+    let derivedKey: Buffer;
+
+    if (params.kdf === 'scrypt') {
+        derivedKey = crypto.scryptSync(secret, salt, kdf.dklen, {
+            N: kdf.n,
+            r: kdf.r,
+            p: kdf.p,
+            // Node's default 32 MB limit is below the usual geth parameters (n=2^18, r=8)
+            maxmem: 128 * kdf.r * (kdf.n + kdf.p + 2) + 1024 * 1024,
+        });
+    } else if (params.kdf === 'pbkdf2') {
+        if (kdf.prf !== 'hmac-sha256') throw new Error(`Unsupported pbkdf2 prf: ${kdf.prf}`);
+        derivedKey = crypto.pbkdf2Sync(secret, salt, kdf.c, kdf.dklen, 'sha256');
+    } else {
+        throw new Error(`Unsupported keystore kdf: ${params.kdf}`);
+    }
+
+    const ciphertext = Buffer.from(params.ciphertext, 'hex');
+    const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+    if (mac.slice(2) !== String(params.mac).toLowerCase()) {
+        throw new Error('Keystore MAC mismatch (wrong password?)');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(params.cipherparams.iv, 'hex'));
+    const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return `0x${key.toString('hex')}`;
+}
+
+async function createKeystoreSigner(config: SignerConfig, rpcUrl: string): Promise<Signer> {
+    if (!config.keystorePath) throw new Error('Missing SIGNER_KEYSTORE for keystore signer');
+    if (config.keystorePassword === undefined) {
+        throw new Error('Missing SIGNER_KEYSTORE_PASSWORD or SIGNER_KEYSTORE_PASSWORD_FILE for keystore signer');
+    }
+
+    const account = privateKeyToAccount(decryptKeystore(fs.readFileSync(config.keystorePath, 'utf-8'), config.keystorePassword));
+    const client = createWalletClient({ account, chain: mainnet, transport: http(rpcUrl) });
+    return { backend: 'keystore', client, address: account.address, exportOnly: false };
+}
+
+async function createPrivateKeySigner(config: SignerConfig, rpcUrl: string): Promise<Signer> {
+    if (!config.privateKey) throw new Error('Missing SIGNER_PRIVATE_KEY for private-key signer');
+
+    // Raw keys are for throwaway devnets only: a local RPC or a devnet chain ID
+    const chainId = config.chainId ?? await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+    const isLocal = LOCAL_HOSTS.has(new URL(rpcUrl).hostname);
+    if (!isLocal && !DEVNET_CHAIN_IDS.has(chainId)) {
+        throw new Error(`Refusing private-key signer on ${rpcUrl} (chain ${chainId}); use keystore or turnkey`);
+    }
+
+    const account = privateKeyToAccount(config.privateKey);
+    const client = createWalletClient({ account, chain: chainFor(chainId), transport: http(rpcUrl) });
+    return { backend: 'private-key', client, address: account.address, exportOnly: false };
+}
+
+async function createUnsignedSigner(config: SignerConfig, rpcUrl: string): Promise<Signer> {
+    const publicClient = createPublicClient({ chain: mainnet, transport: http(rpcUrl) });
+    const chainId = await publicClient.getChainId();
+    const from = config.address ?? await createIconRegistryClient({ rpcUrl }).owner();
+    const exportFile = config.exportFile
+        ?? path.join(EXPORTS_DIR, `unsigned-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+
+    const data: UnsignedExport = fs.existsSync(exportFile)
+        ? JSON.parse(fs.readFileSync(exportFile, 'utf-8'))
+        : { version: 1, chainId, from, createdAt: new Date().toISOString(), transactions: [] };
+    if (data.from.toLowerCase() !== from.toLowerCase()) {
+        throw new Error(`Export file ${exportFile} is for ${data.from}, not ${from}`);
+    }
+
+    // Scripts re-read the on-chain nonce per batch; keep exported nonces sequential
+    let nextNonce = Math.max(
+        await publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+        ...data.transactions.map(tx => tx.nonce + 1)
+    );
+
+    const record = async (request: Record<string, `0x${string}` | undefined>): Promise<`0x${string}`> => {
+        const requested = request.nonce !== undefined ? Number(request.nonce) : 0;
+        const nonce = Math.max(requested, nextNonce);
+        nextNonce = nonce + 1;
+
+        const to = request.to ?? null;
+        const value = BigInt(request.value ?? 0);
+        const gas = request.gas !== undefined
+            ? BigInt(request.gas)
+            : await publicClient.estimateGas({ account: from, to: to ?? undefined, data: request.data, value });
+        const fees = request.maxFeePerGas
+            ? { maxFeePerGas: BigInt(request.maxFeePerGas), maxPriorityFeePerGas: BigInt(request.maxPriorityFeePerGas ?? 0) }
+            : request.gasPrice
+                ? { maxFeePerGas: BigInt(request.gasPrice), maxPriorityFeePerGas: BigInt(request.gasPrice) }
+                : undefined;
+
+        const serialized = serializeTransaction({
+            type: 'eip1559',
+            chainId,
+            nonce,
+            to: to ?? undefined,
+            data: request.data,
+            value,
+            gas,
+            ...fees,
+        });
+        const hash = keccak256(serialized);
+
+        data.transactions.push({
+            nonce,
+            to,
+            data: request.data ?? '0x',
+            value: value.toString(),
+            gas: gas.toString(),
+            maxFeePerGas: fees?.maxFeePerGas.toString(),
+            maxPriorityFeePerGas: fees?.maxPriorityFeePerGas.toString(),
+            serialized,
+            hash,
+        });
+        fs.mkdirSync(path.dirname(exportFile), { recursive: true });
+        fs.writeFileSync(exportFile, JSON.stringify(data, null, 2) + '\n');
+        return hash;
+    };
+
+    const client = createRecordingClient(rpcUrl, from, record);
+    return { backend: 'unsigned', client, address: from, exportOnly: true, exportFile };
+}
+
+async function createSafeSigner(config: SignerConfig, rpcUrl: string): Promise<Signer> {
+    const publicClient = createPublicClient({ chain: mainnet, transport: http(rpcUrl) });
+    const chainId = await publicClient.getChainId();
+    const safeAddress = config.address ?? await createIconRegistryClient({ rpcUrl }).owner();
+    const writer = createSafeBundleWriter({
+        safeAddress,
+        chainId,
+        dir: config.exportFile ?? path.join(EXPORTS_DIR, `safe-${new Date().toISOString().replace(/[:.]/g, '-')}`),
+        gasCeiling: batchPackerEnv().gasCeiling,
+    });
+
+    const record = async (request: Record<string, `0x${string}` | undefined>): Promise<`0x${string}`> => {
+        if (!request.to) {
+            throw new Error('Safe bundles cannot create contracts directly; deploy via create2Deployment() (safe-bundle.ts)');
+        }
+        const value = BigInt(request.value ?? 0);
+        // Gas is estimated from the Safe, which is msg.sender when the bundle executes
+        const gas = request.gas !== undefined
+            ? BigInt(request.gas)
+            : await publicClient.estimateGas({ account: safeAddress, to: request.to, data: request.data, value });
+        return writer.add({ to: request.to, data: request.data, value, gas });
+    };
+
+    const client = createRecordingClient(rpcUrl, safeAddress, record);
+    return { backend: 'safe', client, address: safeAddress, exportOnly: true, exportFile: writer.dir };
+}
+
+/**
+ * Wallet client for `from` whose eth_sendTransaction is handed to `record`
+ * instead of the node; every other call goes to the RPC.
+ */
+function createRecordingClient(
+    rpcUrl: string,
+    from: `0x${string}`,
+    record: (request: Record<string, `0x${string}` | undefined>) => Promise<`0x${string}`>
+): WalletClient {
+    const upstream = http(rpcUrl)({ chain: mainnet });
+    return createWalletClient({
+        account: from,
+        chain: mainnet,
+        transport: custom({
+            request: async ({ method, params }) => {
+                if (method === 'eth_sendTransaction') return record((params as [Record<string, `0x${string}`>])[0]);
+                return upstream.request({ method, params });
+            },
+        }),
+    });
+}
+
+export async function createSigner(config: SignerConfig = {}): Promise<Signer> {
+    const resolved = { ...signerEnv(), ...config };
+    const rpcUrl = resolved.rpcUrl || process.env.RPC_URL || 'https://eth.drpc.org';
+
+    switch (resolved.backend) {
+        case 'keystore':
+            return createKeystoreSigner(resolved, rpcUrl);
+        case 'private-key':
+            return createPrivateKeySigner(resolved, rpcUrl);
+        case 'unsigned':
+            return createUnsignedSigner(resolved, rpcUrl);
+        case 'safe':
+            return createSafeSigner(resolved, rpcUrl);
+        case 'turnkey':
+        case undefined: {
+            // Imported lazily so the other backends work without the Turnkey SDK installed
+            const { createTurnkeySigner } = await import('./turnkey-signer');
+            const { client, address } = await createTurnkeySigner({ rpcUrl });
+            return { backend: 'turnkey', client, address, exportOnly: false };
+        }
+    }
+}
+
+/** One-line description for script headers, e.g. "0xabc... (keystore)" */
+export function describeSigner(signer: Signer): string {
+    return `${signer.address} (${signer.backend}${signer.exportFile ? ` → ${signer.exportFile}` : ''})`;
+}
+
+// CLI usage
+if (require.main === module) {
+    (async () => {
+        try {
+            const signer = await createSigner();
+            console.log(`Signer ready: ${describeSigner(signer)}`);
+        } catch (err) {
+            console.error('Failed to initialize signer:', err);
+            process.exit(1);
+        }
+    })();
+}
@@ -0,0 +1,280 @@
+#!/usr/bin/env npx tsx
+/**
+ * Slug Recovery
+ *
+ * getSlugsPaginated only returns keccak256(slug) hashes, so icons uploaded from
+ * another machine or under an old rsz-prefixed name can't be named by checking
+ * locally known slugs. This module builds a hash → slug dictionary from every
+ * place a plaintext slug can be found, in order of trust:
+ *
+ *   event     IconAdded / IconUpdated logs in the event index (registry-index.ts)
+ *   local     icons-64/ paths, registry-state.json, chain/token mappings, pending uploads
+ *   manifest  docs/manifest.json and docs/manifest-index.json, including every
+ *             revision in git history
+ *   variant   Guessed spellings of known slugs: lowercased, clean (see
+ *             migrate-clean-slugs.ts) and rsz-prefixed
+ *
+ * Usage:
+ *   npx tsx scripts/slug-recovery.ts                      # Report on-chain hashes that can't be named
+ *   REPORT_FILE=slugs.json npx tsx scripts/slug-recovery.ts
+ *
+ *   import { buildSlugDictionary, recoverSlugs } from './slug-recovery';
+ *   const dictionary = buildSlugDictionary({ index });
+ *   const { named, unnamed } = recoverSlugs(await registry.getAllSlugHashes(), dictionary);
+ *
+ * Environment:
+ *   RPC_URL - Ethereum RPC (default: https://eth.drpc.org)
+ *   SKIP_INDEX - If "true", don't sync or read the event index
+ *   SKIP_HISTORY - If "true", only read the current manifests, not their git history
+ *   REPORT_FILE - Also write the full hash → slug report as JSON
+ *   INDEX_DB, START_BLOCK, LOG_CHUNK_SIZE, CONFIRMATIONS - See registry-index.ts
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createIconRegistryClient, slugToHash } from './icon-registry-client';
+import { createRegistryIndex, registryIndexEnv, type RegistryIndex } from './registry-index';
+import { cleanSlug, ICONS_DIR, STATE_FILE } from './registry-state';
+
+const ROOT = path.join(__dirname, '..');
+const MANIFEST_FILES = ['docs/manifest.json', 'docs/manifest-index.json'];
+const MAPPING_FILES = ['docs/chain-mappings.json', 'docs/token-mappings.json'];
+const PENDING_FILE = path.join(ROOT, 'pending-uploads.json');
+
+export type SlugSource = 'event' | 'local' | 'manifest' | 'variant';
+
+export interface RecoveredSlug {
+    slugHash: `0x${string}`;
+    slug: string;
+    source: SlugSource;
+}
+
+export interface SlugDictionary {
+    readonly size: number;
+    /** Add a candidate slug; returns false if its hash is already named */
+    add(slug: string, source: SlugSource): boolean;
+    lookup(slugHash: string): RecoveredSlug | undefined;
+    entries(): RecoveredSlug[];
+}
+
+export interface SlugDictionaryOptions {
+    /** Event index to read plaintext slugs from; synced by the caller */
+    index?: RegistryIndex;
+    /** Read every git revision of the manifests (default: true) */
+    manifestHistory?: boolean;
+}
+
+export interface SlugRecoveryReport {
+    total: number;
+    named: RecoveredSlug[];
+    unnamed: `0x${string}`[];
+    bySource: Record<SlugSource, number>;
+}
+
+export function createSlugDictionary(): SlugDictionary {
+    const names = new Map<string, RecoveredSlug>();
+    return {
+        get size() {
+            return names.size;
+        },
+        add: (slug, source) => {
+            const slugHash = slugToHash(slug);
+            if (names.has(slugHash)) return false;
+            names.set(slugHash, { slugHash, slug, source });
+            return true;
+        },
+        lookup: (slugHash) => names.get(slugHash.toLowerCase()),
+        entries: () => [...names.values()],
+    };
+}
+
+/** Spellings a known slug may have been uploaded under */
+function slugVariants(slug: string): string[] {
+    const variants = new Set([slug.toLowerCase(), cleanSlug(slug)]);
+    const [category, name] = cleanSlug(slug).split('/');
+    if (name) {
+        for (const prefix of ['rsz_', 'rsz-', 'rsz']) variants.add(`${category}/${prefix}${name}`);
+    }
+    variants.delete(slug);
+    return [...variants];
+}
+
+function findAllPngs(dir: string): string[] {
+    const results: string[] = [];
+    if (!fs.existsSync(dir)) return results;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            results.push(...findAllPngs(fullPath));
+        } else if (entry.name.endsWith('.png')) {
+            results.push(fullPath);
+        }
+    }
+    return results;
+}
+
+function readJsonIfExists(file: string): unknown {
+    if (!fs.existsSync(file)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+        return undefined;
+    }
+}
+
+// Old revisions and hand-edited files may not match today's schemas, so they are
+// read as unknown JSON and only the fields that hold slugs are picked out
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function strings(values: unknown): string[] {
+    return Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/** The `slug` field of each object in an array */
+function slugFields(items: unknown): string[] {
+    return Array.isArray(items) ? strings(items.map(item => (isRecord(item) ? item.slug : undefined))) : [];
+}
+
+function localSlugs(): string[] {
+    const slugs = findAllPngs(ICONS_DIR).map(file =>
+        path.relative(ICONS_DIR, file).replace(/\.png$/, '').replace(/\\/g, '/')
+    );
+
+    const state = readJsonIfExists(STATE_FILE);
+    if (isRecord(state) && isRecord(state.icons)) slugs.push(...Object.keys(state.icons));
+
+    for (const file of MAPPING_FILES) {
+        const data = readJsonIfExists(path.join(ROOT, file));
+        if (isRecord(data)) slugs.push(...slugFields(data.mappings));
+    }
+
+    slugs.push(...slugFields(readJsonIfExists(PENDING_FILE)));
+
+    return slugs;
+}
+
+/** Slugs in a manifest.json or manifest-index.json document */
+function manifestSlugs(manifest: unknown): string[] {
+    if (!isRecord(manifest)) return [];
+    const slugs = slugFields(manifest.icons);
+    if (isRecord(manifest.slugsByCategory)) {
+        for (const list of Object.values(manifest.slugsByCategory)) slugs.push(...strings(list));
+    }
+    for (const key of ['chainIdToSlug', 'tokenToSlug']) {
+        const map = manifest[key];
+        if (isRecord(map)) slugs.push(...strings(Object.values(map)));
+    }
+    return slugs;
+}
+
+/** Every committed revision of a file, oldest first; empty outside a git checkout */
+function gitRevisions(file: string): string[] {
+    try {
+        const log = execFileSync('git', ['log', '--format=%H', '--reverse', '--', file], { cwd: ROOT, encoding: 'utf-8' });
+        return log.split('\n').filter(Boolean).map(rev =>
+            execFileSync('git', ['show', `${rev}:${file}`], { cwd: ROOT, encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 })
+        );
+    } catch {
+        return [];
+    }
+}
+
+export function buildSlugDictionary(options: SlugDictionaryOptions = {}): SlugDictionary {
+    const dictionary = createSlugDictionary();
+
+    for (const icon of options.index?.allIcons() ?? []) {
+        dictionary.add(icon.slug, 'event');
+        // Earlier versions of an icon carry the same slug, but keep them in case it differs
+        for (const version of options.index!.iconVersions(icon.slugHash)) dictionary.add(version.slug, 'event');
+    }
+
+    const local = localSlugs();
+    local.forEach(slug => dictionary.add(slug, 'local'));
+
+    const manifests = new Set<string>();
+    for (const file of MANIFEST_FILES) {
+        const current = path.join(ROOT, file);
+        if (fs.existsSync(current)) manifests.add(fs.readFileSync(current, 'utf-8'));
+        if (options.manifestHistory !== false) gitRevisions(file).forEach(content => manifests.add(content));
+    }
+    const fromManifests: string[] = [];
+    for (const content of manifests) {
+        try {
+            fromManifests.push(...manifestSlugs(JSON.parse(content)));
+        } catch {
+            // A broken historical revision shouldn't stop recovery
+        }
+    }
+    fromManifests.forEach(slug => dictionary.add(slug, 'manifest'));
+
+    for (const slug of new Set([...local, ...fromManifests])) {
+        slugVariants(slug).forEach(variant => dictionary.add(variant, 'variant'));
+    }
+
+    return dictionary;
+}
+
+/** Name every on-chain slug hash that the dictionary knows */
+export function recoverSlugs(slugHashes: Iterable<string>, dictionary: SlugDictionary): SlugRecoveryReport {
+    const report: SlugRecoveryReport = {
+        total: 0,
+        named: [],
+        unnamed: [],
+        bySource: { event: 0, local: 0, manifest: 0, variant: 0 },
+    };
+
+    for (const hash of slugHashes) {
+        report.total++;
+        const recovered = dictionary.lookup(hash);
+        if (recovered) {
+            report.named.push(recovered);
+            report.bySource[recovered.source]++;
+        } else {
+            report.unnamed.push(hash.toLowerCase() as `0x${string}`);
+        }
+    }
+
+    report.named.sort((a, b) => a.slug.localeCompare(b.slug));
+    report.unnamed.sort();
+    return report;
+}
+
+// CLI usage
+if (require.main === module) {
+    (async () => {
+        try {
+            const registry = createIconRegistryClient();
+
+            let index: RegistryIndex | undefined;
+            if (process.env.SKIP_INDEX !== 'true') {
+                index = createRegistryIndex({ ...registryIndexEnv(), publicClient: registry.publicClient });
+                const { logs } = await index.sync();
+                console.log(`Event index synced to block ${index.lastBlock()} (${logs} new logs)`);
+            }
+
+            const dictionary = buildSlugDictionary({ index, manifestHistory: process.env.SKIP_HISTORY !== 'true' });
+            console.log(`Dictionary: ${dictionary.size} candidate slugs`);
+
+            const hashes = await registry.getAllSlugHashes();
+            const report = recoverSlugs(hashes, dictionary);
+            index?.close();
+
+            console.log(`\nOn-chain icons: ${report.total}`);
+            console.log(`Named: ${report.named.length} (${Object.entries(report.bySource).map(([s, n]) => `${s} ${n}`).join(', ')})`);
+            console.log(`Unnamed: ${report.unnamed.length}`);
+            report.unnamed.forEach(hash => console.log(`  ${hash}`));
+
+            if (process.env.REPORT_FILE) {
+                fs.writeFileSync(process.env.REPORT_FILE, JSON.stringify(report, null, 2) + '\n');
+                console.log(`\nReport written to ${process.env.REPORT_FILE}`);
+            }
+        } catch (err) {
+            console.error('Failed to recover slugs:', err);
+            process.exit(1);
+        }
+    })();
+}
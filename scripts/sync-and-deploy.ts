@@ -4,38 +4,64 @@
  * 
  * Steps:
  * 1. Clone/pull DefiLlama icons repo
- * 2. Find new icons not in our repo
+ * 2. Find new icons not in our repo, and existing icons whose source file changed
  * 3. Process: resize 64x64 with sharp, optimize with oxipng
- * 4. Check gas price
- * 5. Deploy to mainnet via Turnkey
+ * 4. Compare changed icons against the bytes on-chain; differing ones become version bumps
+ * 5. Check gas price
+ * 6. Deploy to mainnet via the configured signer (EIP-1559 fees, stuck txs are replaced)
+ *
+ * Version bumps re-upload an existing slug through setIconsBatch, which emits
+ * IconUpdated and keeps the old bytes reachable via getIconVersion. Only icons whose
+ * source hash differs from source-hashes.json are reprocessed; the first run without
+ * that file just records the current sources. Bumped icons are listed in
+ * docs/icon-updates-report.md for review, and icons-64/ is refreshed once a bump lands.
  * 
  * Usage:
  *   npx tsx scripts/sync-and-deploy.ts
  * 
  * Environment:
- *   MAX_GAS_PRICE_GWEI - Max gas price to deploy (default: 0.1)
+ *   MAX_GAS_PRICE_GWEI - Max gas price to deploy, also the maxFeePerGas cap (default: 0.1)
+ *   PRIORITY_FEE_GWEI - Fixed priority fee (default: node estimate)
+ *   MAX_SPEND_ETH - Stop deploying once this much ETH has been spent (default: unlimited)
  *   DRY_RUN - If "true", skip deployment (default: false)
- *   BATCH_SIZE - Icons per transaction (default: 5)
+ *   SIMULATE - If "anvil", deploy to a local anvil node as the impersonated owner and
+ *              report exact gas; pending-uploads.json is left untouched (see anvil-simulation.ts)
+ *   GAS_CEILING - Max gas per transaction; batches are packed to fit (default: 15000000)
+ *   MAX_CALLDATA_BYTES - Max calldata per transaction (default: 120000)
+ *   SIGNER - turnkey | keystore | private-key | unsigned | safe (default: turnkey; see signer.ts)
+ *   MAX_VERSION_BUMPS - Max changed icons re-uploaded per run; the rest wait for the next run (default: 20)
+ *   FULL_RECHECK - If "true", reprocess every existing icon instead of only changed sources
  */
 
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import * as os from 'os';
 import sharp from 'sharp';
-import { createPublicClient, http, formatGwei, parseGwei, encodeFunctionData, keccak256, toHex } from 'viem';
+import { createPublicClient, http, formatEther, formatGwei, hexToBytes } from 'viem';
 import { mainnet } from 'viem/chains';
+import { batchPackerEnv, DEFAULT_GAS_CEILING, encodeIconBatch, estimateBatchGas, packIconBatches, splitUntilEstimable } from './batch-packer';
+import { createIconRegistryClient, PROXY_ADDRESS, slugToHash, type IconRegistryClient } from './icon-registry-client';
+import { contentHash, recordIconUploads } from './registry-state';
+import { toRegistryError } from './registry-errors';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { createSigner, describeSigner } from './signer';
+import { createTxManager, SpendCapExceededError, StuckTransactionError, txManagerEnv } from './tx-manager';
 
 // Config
 const DEFILLAMA_REPO = 'https://github.com/DefiLlama/icons.git';
 const DEFILLAMA_DIR = '/tmp/defillama-icons';
 const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
 const PENDING_FILE = path.join(__dirname, '..', 'pending-uploads.json');
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
+const SOURCE_HASHES_FILE = path.join(__dirname, '..', 'source-hashes.json');
+const UPDATES_REPORT_FILE = path.join(__dirname, '..', 'docs', 'icon-updates-report.md');
+const UPDATES_DIR = path.join(os.tmpdir(), 'icon-sync-updates');
 const MAX_GAS_PRICE_GWEI = parseFloat(process.env.MAX_GAS_PRICE_GWEI || '0.1');
 const DRY_RUN = process.env.DRY_RUN === 'true';
-const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '5');
 const RPC_URL = process.env.RPC_URL || 'https://ethereum-rpc.publicnode.com';
+const MAX_VERSION_BUMPS = parseInt(process.env.MAX_VERSION_BUMPS || '20');
+const FULL_RECHECK = process.env.FULL_RECHECK === 'true';
 
 interface PendingUpload {
     slug: string;
@@ -55,6 +81,27 @@ function savePendingUploads(pending: PendingUpload[]): void {
     fs.writeFileSync(PENDING_FILE, JSON.stringify(pending, null, 2));
 }
 
+/** sha256 of each slug's DefiLlama source file as of the last processed run */
+type SourceHashes = Record<string, string>;
+
+function loadSourceHashes(): SourceHashes | undefined {
+    try {
+        if (fs.existsSync(SOURCE_HASHES_FILE)) {
+            return JSON.parse(fs.readFileSync(SOURCE_HASHES_FILE, 'utf-8'));
+        }
+    } catch {}
+    return undefined;
+}
+
+function saveSourceHashes(hashes: SourceHashes): void {
+    const sorted = Object.fromEntries(Object.entries(hashes).sort(([a], [b]) => a.localeCompare(b)));
+    fs.writeFileSync(SOURCE_HASHES_FILE, JSON.stringify(sorted, null, 2) + '\n');
+}
+
+function hashSourceFile(file: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+}
+
 function removePendingUploads(uploadedSlugs: Set<string>, pending: PendingUpload[]): PendingUpload[] {
     return pending.filter(p => !uploadedSlugs.has(p.slug));
 }
@@ -69,35 +116,6 @@ const SKIP_PATTERNS = [
     /\(1\)\./,               // Duplicate downloads
 ];
 
-const ICON_REGISTRY_ABI = [
-    {
-        name: 'setIconsBatch',
-        type: 'function',
-        inputs: [
-            { name: 'slugs', type: 'string[]' },
-            { name: 'datas', type: 'bytes[]' },
-            { name: 'widths', type: 'uint32[]' },
-            { name: 'heights', type: 'uint32[]' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'totalIcons',
-        type: 'function',
-        inputs: [],
-        outputs: [{ type: 'uint256' }],
-    },
-    {
-        name: 'getSlugsPaginated',
-        type: 'function',
-        inputs: [
-            { name: 'offset', type: 'uint256' },
-            { name: 'limit', type: 'uint256' },
-        ],
-        outputs: [{ type: 'bytes32[]' }],
-    },
-] as const;
-
 // Helpers
 function hasOxipng(): boolean {
     try {
@@ -131,10 +149,6 @@ function findAllIcons(dir: string, baseDir: string = dir): Array<{ fullPath: str
     return results;
 }
 
-function slugToHash(slug: string): `0x${string}` {
-    return keccak256(toHex(slug));
-}
-
 async function processIcon(sourcePath: string, destPath: string, useOxipng: boolean): Promise<boolean> {
     const destDir = path.dirname(destPath);
     if (!fs.existsSync(destDir)) {
@@ -172,34 +186,92 @@ async function processIcon(sourcePath: string, destPath: string, useOxipng: bool
 
 async function getOnChainSlugs(publicClient: any): Promise<Set<string>> {
     console.log('Fetching on-chain icons...');
-    const total = await publicClient.readContract({
-        address: PROXY_ADDRESS,
-        abi: ICON_REGISTRY_ABI,
-        functionName: 'totalIcons',
-    });
-    console.log(`Found ${total} icons on-chain`);
+    const registry = createIconRegistryClient({ publicClient });
+    const uploadedHashes = await registry.getAllSlugHashes();
+    console.log(`Found ${uploadedHashes.size} icons on-chain`);
+    return uploadedHashes;
+}
 
-    const uploadedHashes = new Set<string>();
-    const pageSize = 100n;
-    
-    for (let offset = 0n; offset < total; offset += pageSize) {
-        const hashes = await publicClient.readContract({
-            address: PROXY_ADDRESS,
-            abi: ICON_REGISTRY_ABI,
-            functionName: 'getSlugsPaginated',
-            args: [offset, pageSize],
-        });
-        hashes.forEach((h: string) => uploadedHashes.add(h.toLowerCase()));
+interface ChangedSource {
+    slug: string;
+    /** Freshly processed PNG in UPDATES_DIR */
+    path: string;
+    sourceHash: string;
+}
+
+/** An existing icon whose reprocessed bytes differ from its current on-chain version */
+interface VersionBump extends ChangedSource {
+    currentVersion: number;
+    currentHash: `0x${string}`;
+    currentSize: number;
+    newHash: `0x${string}`;
+    newSize: number;
+    status: 'queued' | 'deferred' | 'uploaded' | 'exported' | 'failed';
+}
+
+/**
+ * Compare reprocessed icons against the bytes at their current SSTORE2 pointers.
+ * Icons missing on-chain are left to the new-icon path.
+ */
+async function findVersionBumps(
+    registry: IconRegistryClient,
+    changed: ChangedSource[],
+    onChainHashes: Set<string>
+): Promise<{ bumps: VersionBump[]; unchanged: ChangedSource[] }> {
+    const bumps: VersionBump[] = [];
+    const unchanged: ChangedSource[] = [];
+    const onChain = changed.filter(c => onChainHashes.has(slugToHash(c.slug).toLowerCase()));
+
+    for (let i = 0; i < onChain.length; i += 50) {
+        const chunk = onChain.slice(i, i + 50);
+        const current = await registry.batchGetIcons(chunk.map(c => slugToHash(c.slug)));
+
+        for (const [j, candidate] of chunk.entries()) {
+            const data = fs.readFileSync(candidate.path);
+            const currentHash = contentHash(hexToBytes(current[j]));
+            const newHash = contentHash(data);
+            if (currentHash === newHash) {
+                unchanged.push(candidate);
+                continue;
+            }
+            bumps.push({
+                ...candidate,
+                currentVersion: await registry.getCurrentVersion(slugToHash(candidate.slug)),
+                currentHash,
+                currentSize: (current[j].length - 2) / 2,
+                newHash,
+                newSize: data.length,
+                status: 'queued',
+            });
+        }
     }
-    
-    return uploadedHashes;
+    return { bumps, unchanged };
+}
+
+function writeUpdatesReport(bumps: VersionBump[]): void {
+    const report = `# Icon Version Bumps
+
+Generated: ${new Date().toISOString()}
+
+Existing icons whose DefiLlama source changed and whose processed bytes differ from
+the current on-chain version. Deferred icons exceeded MAX_VERSION_BUMPS (${MAX_VERSION_BUMPS})
+and are picked up by the next run.
+
+| Slug | Version | Old | New | Status |
+|------|---------|-----|-----|--------|
+${bumps.map(b =>
+    `| \`${b.slug}\` | ${b.currentVersion} → ${b.currentVersion + 1} | \`${b.currentHash.slice(0, 10)}\` (${b.currentSize} B) | \`${b.newHash.slice(0, 10)}\` (${b.newSize} B) | ${b.status} |`
+).join('\n')}
+`;
+    fs.writeFileSync(UPDATES_REPORT_FILE, report);
+    console.log(`Version bump report saved: ${UPDATES_REPORT_FILE}`);
 }
 
 async function main() {
     console.log('=== DefiLlama Icon Sync & Deploy ===\n');
     console.log(`Max gas price: ${MAX_GAS_PRICE_GWEI} gwei`);
     console.log(`Dry run: ${DRY_RUN}`);
-    console.log(`Batch size: ${BATCH_SIZE}\n`);
+    console.log(`Gas ceiling: ${(batchPackerEnv().gasCeiling ?? DEFAULT_GAS_CEILING).toLocaleString()} per tx\n`);
 
     // Step 1: Clone or pull DefiLlama icons
     console.log('Step 1: Syncing DefiLlama icons repo...');
@@ -281,6 +353,42 @@ async function main() {
 
     console.log(`\nProcessed ${processed} new icons (${failed} failed)`);
 
+    // Step 4b: Reprocess existing icons whose source changed since the last run
+    console.log('\nStep 4b: Checking existing icons for changed sources...');
+    const storedSourceHashes = loadSourceHashes();
+    const sourceHashes: SourceHashes = { ...storedSourceHashes };
+    const changedSources: ChangedSource[] = [];
+    const seenSlugs = new Set<string>();
+
+    for (const icon of allSourceIcons) {
+        // Several source files can map to one slug; only the first is compared
+        if (seenSlugs.has(icon.slug)) continue;
+        seenSlugs.add(icon.slug);
+
+        const sourceHash = hashSourceFile(icon.fullPath);
+        if (!existingSlugs.has(icon.slug)) {
+            if (newIcons.some(i => i.slug === icon.slug)) sourceHashes[icon.slug] = sourceHash;
+            continue;
+        }
+        if (!storedSourceHashes) {
+            // First run: record the current sources instead of reprocessing everything
+            sourceHashes[icon.slug] = sourceHash;
+            continue;
+        }
+        if (!FULL_RECHECK && sourceHashes[icon.slug] === sourceHash) continue;
+
+        const updatePath = path.join(UPDATES_DIR, icon.slug + '.png');
+        if (await processIcon(icon.fullPath, updatePath, useOxipng)) {
+            changedSources.push({ slug: icon.slug, path: updatePath, sourceHash });
+        }
+    }
+
+    if (!storedSourceHashes) {
+        console.log(`No ${path.basename(SOURCE_HASHES_FILE)} yet; recorded ${Object.keys(sourceHashes).length} source hashes`);
+    } else {
+        console.log(`${changedSources.length} existing icons have changed sources`);
+    }
+
     // Step 5: Load pending uploads from previous runs
     console.log('\nStep 5: Loading pending uploads from previous runs...');
     const pendingUploads = loadPendingUploads();
@@ -294,14 +402,16 @@ async function main() {
         }
     }
 
-    if (newIcons.length === 0) {
-        console.log('\nNo new icons to deploy!');
+    if (newIcons.length === 0 && changedSources.length === 0) {
+        if (!storedSourceHashes && !isSimulation()) saveSourceHashes(sourceHashes);
+        console.log('\nNo new or changed icons to deploy!');
         return;
     }
 
     // Step 6: Check against on-chain state
     console.log('\nStep 6: Checking on-chain state...');
-    const publicClient = createPublicClient({
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+    const publicClient = sim?.publicClient ?? createPublicClient({
         chain: mainnet,
         transport: http(RPC_URL),
     });
@@ -315,8 +425,32 @@ async function main() {
 
     console.log(`${toUpload.length} icons need to be uploaded`);
 
-    if (toUpload.length === 0) {
+    const { bumps, unchanged } = await findVersionBumps(
+        createIconRegistryClient({ publicClient }),
+        changedSources,
+        onChainHashes
+    );
+    bumps.slice(MAX_VERSION_BUMPS).forEach(b => { b.status = 'deferred'; });
+    const queuedBumps = bumps.filter(b => b.status === 'queued');
+    console.log(`${bumps.length} changed icons need a version bump (${queuedBumps.length} this run, limit ${MAX_VERSION_BUMPS})`);
+
+    if (!sim) {
+        // Sources that already match the chain: refresh the local copy and stop re-checking them
+        for (const icon of unchanged) {
+            fs.copyFileSync(icon.path, path.join(ICONS_DIR, icon.slug + '.png'));
+            sourceHashes[icon.slug] = icon.sourceHash;
+        }
+        saveSourceHashes(sourceHashes);
+        recordIconUploads(unchanged.map(icon => icon.slug));
+        if (bumps.length > 0) writeUpdatesReport(bumps);
+    }
+
+    if (toUpload.length === 0 && queuedBumps.length === 0) {
         console.log('\nAll new icons already on-chain!');
+        if (sim) {
+            await sim.finish();
+            return;
+        }
         // Clear pending uploads since everything is on-chain
         savePendingUploads([]);
         return;
@@ -328,7 +462,7 @@ async function main() {
     const gasPriceGwei = parseFloat(formatGwei(gasPrice));
     console.log(`Current gas price: ${gasPriceGwei.toFixed(4)} gwei`);
 
-    if (gasPriceGwei > MAX_GAS_PRICE_GWEI) {
+    if (gasPriceGwei > MAX_GAS_PRICE_GWEI && !sim) {
         console.log(`\nGas price too high (${gasPriceGwei.toFixed(4)} > ${MAX_GAS_PRICE_GWEI}). Skipping deployment.`);
         console.log('Icons have been processed and saved locally. They will be deployed when gas is lower.');
         
@@ -344,13 +478,24 @@ async function main() {
         console.log('\n=== Summary ===');
         console.log(`New icons processed: ${processed}`);
         console.log(`Pending upload: ${toUpload.length}`);
+        console.log(`Version bumps waiting: ${bumps.length}`);
         console.log(`Gas price: ${gasPriceGwei.toFixed(4)} gwei (max: ${MAX_GAS_PRICE_GWEI})`);
         return;
     }
 
-    if (DRY_RUN) {
+    // Changed icons go through setIconsBatch like new ones; the contract bumps their version
+    const uploads = [...toUpload, ...queuedBumps].map(icon => ({
+        slug: icon.slug,
+        data: fs.readFileSync(icon.path),
+        width: 64,
+        height: 64,
+    }));
+    const packerConfig = batchPackerEnv();
+    const packed = packIconBatches(uploads, icon => icon, packerConfig);
+
+    if (DRY_RUN && !sim) {
         console.log('\nDry run - skipping deployment');
-        console.log(`Would deploy ${toUpload.length} icons in ${Math.ceil(toUpload.length / BATCH_SIZE)} batches`);
+        console.log(`Would deploy ${toUpload.length} icons and ${queuedBumps.length} version bumps in ${packed.length} batches (~${estimateBatchGas(uploads).toLocaleString()} gas)`);
         // Still save pending for next run
         const newPending: PendingUpload[] = toUpload.map(icon => ({
             slug: icon.slug,
@@ -360,84 +505,119 @@ async function main() {
         return;
     }
 
-    // Step 8: Deploy via Turnkey
-    console.log('\nStep 8: Deploying via Turnkey...');
+    // Step 8: Deploy via the configured signer (or the impersonated owner when simulating)
+    console.log(`\nStep 8: Deploying via ${sim ? 'anvil simulation' : 'signer'}...`);
     
-    // Import Turnkey signer dynamically to avoid errors if env vars not set
-    const { createTurnkeySigner } = await import('./turnkey-signer');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer: ${address}`);
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}`);
+
+    const txManager = createTxManager({
+        publicClient,
+        walletClient,
+        ...txManagerEnv(),
+        maxFeePerGasGwei: MAX_GAS_PRICE_GWEI,
+        exportOnly: signer.exportOnly,
+    });
 
-    const totalBatches = Math.ceil(toUpload.length / BATCH_SIZE);
-    let successCount = 0;
+    const uploadedSlugs = new Set<string>();
     let totalGas = 0n;
+    let stopped = false;
+
+    console.log(`Packed ${uploads.length} icons into ${packed.length} batches`);
+
+    for (let i = 0; i < packed.length && !stopped; i++) {
+        // Split batches that fail estimation or come in over the gas ceiling
+        const { batches, rejected } = await splitUntilEstimable(
+            packed[i],
+            batch => publicClient.estimateGas({ account: address, to: PROXY_ADDRESS, data: encodeIconBatch(batch) }),
+            packerConfig,
+            (size, reason) => console.log(`Batch ${i + 1}: splitting ${size} icons (${reason})`)
+        );
+        for (const { item, error } of rejected) {
+            console.error(`Batch ${i + 1}: ${item.slug} rejected: ${String(toRegistryError(error)).slice(0, 100)}`);
+        }
 
-    for (let i = 0; i < totalBatches; i++) {
-        const batch = toUpload.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-        
-        const slugs = batch.map(b => b.slug);
-        const datas = batch.map(b => `0x${fs.readFileSync(b.path).toString('hex')}` as `0x${string}`);
-        const widths = batch.map(() => 64);
-        const heights = batch.map(() => 64);
-
-        try {
-            const data = encodeFunctionData({
-                abi: ICON_REGISTRY_ABI,
-                functionName: 'setIconsBatch',
-                args: [slugs, datas, widths, heights],
-            });
-
-            const gasEstimate = await publicClient.estimateGas({
-                account: address,
-                to: PROXY_ADDRESS,
-                data,
-            });
-
-            const nonce = await publicClient.getTransactionCount({ address });
-            const currentGasPrice = await publicClient.getGasPrice();
-            const bufferedGasPrice = currentGasPrice + (currentGasPrice * 20n / 100n);
+        for (const batch of batches) {
+            try {
+                const { hash, receipt } = await txManager.send({ to: PROXY_ADDRESS, data: encodeIconBatch(batch.items) });
+                if (!receipt) {
+                    batch.items.forEach(icon => uploadedSlugs.add(icon.slug));
+                    console.log(`Batch ${i + 1}/${packed.length}: ${batch.items.length} icons exported as ${hash} (est. ${batch.gas.toLocaleString()} gas)`);
+                    continue;
+                }
+                if (receipt.status !== 'success') {
+                    throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+                }
 
-            const txHash = await walletClient.sendTransaction({
-                to: PROXY_ADDRESS,
-                data,
-                gas: gasEstimate + (gasEstimate * 10n / 100n),
-                gasPrice: bufferedGasPrice,
-                nonce,
-            });
+                batch.items.forEach(icon => uploadedSlugs.add(icon.slug));
+                totalGas += receipt.gasUsed;
 
-            const receipt = await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                timeout: 180_000,
-            });
+                console.log(`Batch ${i + 1}/${packed.length}: ${batch.items.length} icons, ${receipt.gasUsed.toLocaleString()} gas (est. ${batch.gas.toLocaleString()})`);
+            } catch (err: any) {
+                console.error(`Batch ${i + 1} failed: ${err.message?.slice(0, 100)}`);
+                if (err instanceof SpendCapExceededError || err instanceof StuckTransactionError) {
+                    stopped = true;
+                    break;
+                }
+            }
 
-            successCount += batch.length;
-            totalGas += receipt.gasUsed;
-            
-            console.log(`Batch ${i + 1}/${totalBatches}: ${batch.length} icons, ${receipt.gasUsed.toLocaleString()} gas`);
-        } catch (err: any) {
-            console.error(`Batch ${i + 1} failed: ${err.message?.slice(0, 100)}`);
+            // Small delay between batches
+            await new Promise(r => setTimeout(r, 500));
         }
+    }
 
-        // Small delay between batches
-        await new Promise(r => setTimeout(r, 500));
+    const uploadedNew = toUpload.filter(icon => uploadedSlugs.has(icon.slug)).length;
+    for (const bump of queuedBumps) {
+        bump.status = !uploadedSlugs.has(bump.slug) ? 'failed' : signer.exportOnly ? 'exported' : 'uploaded';
     }
+    const bumped = queuedBumps.filter(b => uploadedSlugs.has(b.slug)).length;
 
     console.log('\n=== Deployment Complete ===');
-    console.log(`Icons deployed: ${successCount}/${toUpload.length}`);
+    console.log(`Icons deployed: ${uploadedNew}/${toUpload.length}`);
+    console.log(`Version bumps: ${bumped}/${queuedBumps.length} (${bumps.length - queuedBumps.length} deferred)`);
     console.log(`Total gas used: ${totalGas.toLocaleString()}`);
+    console.log(`Total spent: ${formatEther(txManager.spent)} ETH`);
+
+    if (sim) {
+        await sim.finish({
+            'Icons uploaded': `${uploadedNew}/${toUpload.length}`,
+            'Version bumps': `${bumped}/${queuedBumps.length}`,
+        });
+        return;
+    }
+
+    if (bumps.length > 0) writeUpdatesReport(bumps);
+
+    // Exported transactions are not on chain yet; the next run re-detects anything still missing
+    if (signer.exportOnly) {
+        console.log(`Transactions exported to ${signer.exportFile}`);
+        return;
+    }
+
+    // Bumps that landed: refresh the local copy and record the source. Failed and
+    // deferred ones keep their old source hash, so the next run retries them.
+    for (const bump of queuedBumps.filter(b => b.status === 'uploaded')) {
+        fs.copyFileSync(bump.path, path.join(ICONS_DIR, bump.slug + '.png'));
+        sourceHashes[bump.slug] = bump.sourceHash;
+    }
+    saveSourceHashes(sourceHashes);
+
+    // Keep registry-state.json on the bytes now on chain, so the next plan doesn't revert them
+    const recorded = recordIconUploads([...uploadedSlugs]);
+    if (recorded > 0) console.log(`Updated ${recorded} icons in registry-state.json`);
 
     // Update pending uploads - remove successfully uploaded, keep failed
-    if (successCount === toUpload.length) {
+    if (uploadedNew === toUpload.length) {
         // All succeeded - clear pending
         savePendingUploads([]);
         console.log('Cleared pending uploads');
     } else {
         // Some failed - save the remaining ones
-        const uploadedSlugs = new Set(toUpload.slice(0, successCount).map(i => i.slug));
         const remaining = removePendingUploads(uploadedSlugs, pendingUploads);
         // Add any new icons that failed
-        const failedNew = toUpload.slice(successCount).filter(
-            i => !pendingUploads.some(p => p.slug === i.slug)
+        const failedNew = toUpload.filter(
+            i => !uploadedSlugs.has(i.slug) && !pendingUploads.some(p => p.slug === i.slug)
         ).map(i => ({ slug: i.slug, addedAt: new Date().toISOString() }));
         savePendingUploads([...remaining, ...failedNew]);
         console.log(`${remaining.length + failedNew.length} icons saved to pending for retry`);
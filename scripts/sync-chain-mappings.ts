@@ -0,0 +1,212 @@
+#!/usr/bin/env npx tsx
+/**
+ * Sync Chain Mappings from a Chainlist Dataset
+ *
+ * Reads a chainlist-style JSON file and proposes chain ID → icon mappings for
+ * chains that docs/chain-mappings.json doesn't cover yet:
+ *
+ *   [{ "chainId": 8453, "name": "Base", "shortName": "base" },
+ *    { "chainId": 84532, "name": "Base Sepolia", "testnet": true, "parent": 8453 }]
+ *
+ * The file may also be an object with a "chains" array. Entries need chainId and
+ * name; shortName, testnet and parent (the mainnet chain ID a testnet belongs to)
+ * are optional. Chainlist's own `parent: { type: "L2", ... }` objects describe
+ * settlement layers, not mainnets, and are ignored.
+ *
+ * Mainnets are fuzzy-matched to chains/* icons in icons-64/ (see icon-matcher.ts).
+ * Testnets take their mainnet's icon, the way Sepolia → chains/ethereum is mapped:
+ * via `parent` if given, else by stripping testnet words ("OP Sepolia" → "OP")
+ * and finding the mainnet with that name.
+ *
+ * Proposals are written to PROPOSALS_FILE for review. With --write, proposals at
+ * or above WRITE_CONFIDENCE are appended to docs/chain-mappings.json; deploy them
+ * with setup-chain-mappings.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-chain-mappings.ts chainlist.json
+ *   npx tsx scripts/sync-chain-mappings.ts chainlist.json --write
+ *
+ * Environment:
+ *   PROPOSALS_FILE - Review file (default: chain-mapping-proposals.json)
+ *   MIN_CONFIDENCE - Don't propose matches below this (default: 0.6)
+ *   WRITE_CONFIDENCE - Minimum confidence appended by --write (default: 0.9)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    CHAIN_MAPPINGS_FILE,
+    ChainMappingsError,
+    loadChainMappingsFile,
+    localChainIcons,
+    validateChainMappings,
+    type ChainMapping,
+} from './chain-mappings';
+import { createIconMatcher, normalizeName, type MatchMethod, type MatchTerm } from './icon-matcher';
+import { cleanSlug } from './registry-state';
+
+const PROPOSALS_FILE = process.env.PROPOSALS_FILE || path.join(__dirname, '..', 'chain-mapping-proposals.json');
+const MIN_CONFIDENCE = parseFloat(process.env.MIN_CONFIDENCE || '0.6');
+const WRITE_CONFIDENCE = parseFloat(process.env.WRITE_CONFIDENCE || '0.9');
+
+const STOP_WORDS = ['mainnet', 'network', 'chain', 'smart', 'evm', 'l1', 'l2', 'blockchain', 'protocol', 'one'];
+const TESTNET_WORDS = /\b(testnet|test|sepolia|goerli|holesky|hoodi|ropsten|rinkeby|kovan|devnet|fuji|amoy|mumbai|alfajores|chiado|bartio|bepolia|cardona)\b/gi;
+
+interface ChainlistEntry {
+    chainId: number;
+    name: string;
+    shortName?: string;
+    testnet?: boolean;
+    parent?: number | { type?: string; chain?: string };
+}
+
+interface ChainProposal extends ChainMapping {
+    confidence: number;
+    method: MatchMethod | 'parent' | 'mainnet-name';
+    /** Runner-up icons, for review */
+    candidates: Array<{ slug: string; confidence: number }>;
+}
+
+function loadChainlist(file: string): ChainlistEntry[] {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const entries: unknown[] = Array.isArray(data) ? data : data.chains;
+    if (!Array.isArray(entries)) throw new Error(`${file}: expected an array of chains or { "chains": [...] }`);
+
+    return entries.filter((e: any): e is ChainlistEntry =>
+        Number.isSafeInteger(e?.chainId) && e.chainId > 0 && typeof e.name === 'string' && e.name.trim() !== ''
+    );
+}
+
+function isTestnet(entry: ChainlistEntry): boolean {
+    return entry.testnet ?? new RegExp(TESTNET_WORDS.source, 'i').test(entry.name);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const file = args.find(a => !a.startsWith('--'));
+    const write = args.includes('--write');
+    if (!file) throw new Error('Usage: sync-chain-mappings.ts <chainlist.json> [--write]');
+
+    console.log('=== Sync Chain Mappings ===\n');
+    const chainlist = loadChainlist(file);
+    const mappingsFile = loadChainMappingsFile();
+    const existing = new Map(mappingsFile.mappings.map(m => [m.chainId, m]));
+    console.log(`Chainlist: ${chainlist.length} chains from ${file}`);
+    console.log(`Mapped: ${existing.size} chains in ${CHAIN_MAPPINGS_FILE}`);
+
+    const localIcons = localChainIcons();
+    const iconSlugs = [...localIcons.keys()].filter(slug => cleanSlug(slug) === slug);
+    const matcher = createIconMatcher(iconSlugs, { stopWords: STOP_WORDS, sources: localIcons });
+    console.log(`Icons: ${iconSlugs.length} chains/* slugs\n`);
+
+    const proposals = new Map<number, ChainProposal>();
+    const unmatched: ChainlistEntry[] = [];
+    const pending = chainlist.filter(entry => !existing.has(entry.chainId));
+
+    // Mainnets first, so testnets can route to mainnets proposed in the same run
+    for (const entry of pending.filter(e => !isTestnet(e))) {
+        const terms: MatchTerm[] = [{ term: entry.name }];
+        if (entry.shortName) terms.push({ term: entry.shortName, weight: 0.9 });
+        const [best, ...rest] = matcher.match(terms);
+        if (!best || best.confidence < MIN_CONFIDENCE) {
+            unmatched.push(entry);
+            continue;
+        }
+        proposals.set(entry.chainId, {
+            chainId: entry.chainId,
+            name: entry.name,
+            slug: best.slug,
+            testnet: false,
+            confidence: best.confidence,
+            method: best.method,
+            candidates: rest.map(({ slug, confidence }) => ({ slug, confidence })),
+        });
+    }
+
+    // Mainnets by normalized name, for testnets without an explicit parent
+    const mainnetsByName = new Map<string, { chainId: number; slug: string; confidence: number }>();
+    for (const m of mappingsFile.mappings.filter(m => !m.testnet)) {
+        mainnetsByName.set(normalizeName(m.name), { chainId: m.chainId, slug: m.slug, confidence: 1 });
+    }
+    for (const p of proposals.values()) {
+        if (!mainnetsByName.has(normalizeName(p.name))) mainnetsByName.set(normalizeName(p.name), p);
+    }
+
+    for (const entry of pending.filter(isTestnet)) {
+        const parentId = typeof entry.parent === 'number' ? entry.parent : undefined;
+        const mapped = parentId === undefined ? undefined : existing.get(parentId);
+        const proposed = parentId === undefined ? undefined : proposals.get(parentId);
+        const byId = mapped ?? proposed;
+        const parent = byId && !byId.testnet
+            ? { chainId: byId.chainId, slug: byId.slug, confidence: mapped ? 1 : proposed!.confidence }
+            : undefined;
+
+        const baseName = entry.name.replace(TESTNET_WORDS, ' ').replace(/\s+/g, ' ').trim();
+        const byName = parent ? undefined : mainnetsByName.get(normalizeName(baseName));
+
+        const route = parent ?? byName;
+        if (!route) {
+            unmatched.push(entry);
+            continue;
+        }
+        proposals.set(entry.chainId, {
+            chainId: entry.chainId,
+            name: entry.name,
+            slug: route.slug,
+            testnet: true,
+            parent: route.chainId,
+            // Guessing the mainnet from the name is less certain than an explicit parent
+            confidence: Math.round(route.confidence * (parent ? 1 : 0.9) * 1000) / 1000,
+            method: parent ? 'parent' : 'mainnet-name',
+            candidates: [],
+        });
+    }
+
+    const sorted = [...proposals.values()].sort((a, b) => b.confidence - a.confidence || a.chainId - b.chainId);
+    fs.writeFileSync(PROPOSALS_FILE, JSON.stringify({
+        source: file,
+        generatedAt: new Date().toISOString(),
+        minConfidence: MIN_CONFIDENCE,
+        proposals: sorted,
+        unmatched: unmatched.map(({ chainId, name }) => ({ chainId, name })).sort((a, b) => a.chainId - b.chainId),
+    }, null, 2) + '\n');
+
+    console.log(`Already mapped: ${chainlist.length - pending.length}`);
+    console.log(`Proposed: ${sorted.length} (${sorted.filter(p => p.testnet).length} testnets)`);
+    console.log(`Unmatched: ${unmatched.length}\n`);
+    sorted.slice(0, 30).forEach(p => {
+        const route = p.testnet ? ` (testnet of ${p.parent})` : '';
+        console.log(`  ${p.confidence.toFixed(2)} ${p.method.padEnd(12)} ${p.chainId} ${p.name} → ${p.slug}${route}`);
+    });
+    if (sorted.length > 30) console.log(`  ... and ${sorted.length - 30} more`);
+    console.log(`\nProposals written to ${PROPOSALS_FILE}`);
+
+    if (!write) {
+        console.log(`Review, then re-run with --write to add proposals with confidence ≥ ${WRITE_CONFIDENCE}`);
+        return;
+    }
+
+    // Testnets whose proposed parent isn't written would fail validation
+    const accepted = sorted.filter(p => p.confidence >= WRITE_CONFIDENCE);
+    const acceptedIds = new Set([...existing.keys(), ...accepted.filter(p => !p.testnet).map(p => p.chainId)]);
+    const toWrite = accepted.filter(p => !p.testnet || acceptedIds.has(p.parent!));
+
+    // Insert by chain ID without reordering the hand-curated entries
+    const mappings: ChainMapping[] = [...mappingsFile.mappings];
+    for (const { chainId, name, slug, testnet, parent } of [...toWrite].sort((a, b) => a.chainId - b.chainId)) {
+        const at = mappings.findIndex(m => m.chainId > chainId);
+        mappings.splice(at === -1 ? mappings.length : at, 0, testnet ? { chainId, name, slug, testnet, parent } : { chainId, name, slug, testnet });
+    }
+
+    const problems = validateChainMappings(mappings, localIcons);
+    if (problems.length > 0) throw new ChainMappingsError(CHAIN_MAPPINGS_FILE, problems);
+
+    fs.writeFileSync(CHAIN_MAPPINGS_FILE, JSON.stringify({ ...mappingsFile, mappings }, null, 2) + '\n');
+    console.log(`\nAdded ${toWrite.length} mappings to ${CHAIN_MAPPINGS_FILE}`);
+    console.log('Deploy with: npx tsx scripts/setup-chain-mappings.ts');
+}
+
+main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+});
@@ -3,17 +3,38 @@
  * Sync Token Mappings from DefiLlama
  * 
  * Fetches stablecoin data from DefiLlama and generates token mappings JSON.
- * Maps token addresses to pegged/ icon slugs.
+ * Maps token addresses to pegged/ icon slugs. Entries from other sources (see
+ * import-token-list.ts) are kept.
+ *
+ * Stablecoins are matched by name and symbol with icon-matcher.ts. Matches below
+ * REVIEW_CONFIDENCE are queued in docs/pending-token-mappings.json with their
+ * candidate icons instead of being mapped (see token-mappings.ts).
  * 
  * Usage:
  *   npx tsx scripts/sync-token-mappings.ts
+ *
+ * Environment:
+ *   MIN_CONFIDENCE - Don't queue matches below this (default: 0.6)
+ *   REVIEW_CONFIDENCE - Matches below this need review (default: 0.9)
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-
-const ICONS_DIR = path.join(__dirname, '..', 'icons-64');
-const OUTPUT_FILE = path.join(__dirname, '..', 'docs', 'token-mappings.json');
+import { createIconMatcher } from './icon-matcher';
+import { cleanSlug, localIconSlugs } from './registry-state';
+import {
+    PENDING_TOKEN_MAPPINGS_FILE,
+    TOKEN_MAPPINGS_FILE,
+    loadTokenMappingsFile,
+    mergeTokenMappings,
+    queuePendingTokenMappings,
+    saveTokenMappingsFile,
+    splitByConfidence,
+    type PendingTokenMapping,
+    type TokenMapping,
+} from './token-mappings';
+
+const MIN_CONFIDENCE = parseFloat(process.env.MIN_CONFIDENCE || '0.6');
+// Symbols like "USD" are shared by many stablecoins, so they count for less than names
+const SYMBOL_WEIGHT = 0.8;
 
 // Chain name to chain ID mapping (from DefiLlama)
 const CHAIN_NAME_TO_ID: Record<string, number> = {
@@ -99,57 +120,6 @@ interface StablecoinDetail {
     chainBalances: Record<string, any>;
 }
 
-interface TokenMapping {
-    token: string;
-    chainId: number;
-    slug: string;
-    name: string;
-    symbol: string;
-}
-
-function slugify(name: string): string {
-    return name
-        .toLowerCase()
-        .replace(/['']/g, '')
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-|-$/g, '');
-}
-
-function findIconSlug(name: string, symbol: string): string | null {
-    const peggedDir = path.join(ICONS_DIR, 'pegged');
-    if (!fs.existsSync(peggedDir)) return null;
-
-    const files = fs.readdirSync(peggedDir);
-    const slugified = slugify(name);
-    
-    // Try exact match first
-    if (files.includes(`${slugified}.png`)) {
-        return `pegged/${slugified}`;
-    }
-
-    // Try symbol-based match
-    const symbolLower = symbol.toLowerCase();
-    const symbolMatch = files.find(f => 
-        f.toLowerCase() === `${symbolLower}.png` ||
-        f.toLowerCase().startsWith(`${symbolLower}-`) ||
-        f.toLowerCase().includes(symbolLower)
-    );
-    if (symbolMatch) {
-        return `pegged/${symbolMatch.replace('.png', '')}`;
-    }
-
-    // Try partial name match
-    const partialMatch = files.find(f => 
-        f.toLowerCase().includes(slugified) ||
-        slugified.includes(f.replace('.png', '').toLowerCase())
-    );
-    if (partialMatch) {
-        return `pegged/${partialMatch.replace('.png', '')}`;
-    }
-
-    return null;
-}
-
 async function fetchWithRetry(url: string, retries = 3): Promise<any> {
     for (let i = 0; i < retries; i++) {
         try {
@@ -173,13 +143,12 @@ async function main() {
     console.log(`Found ${stablecoins.length} stablecoins\n`);
 
     // Get available pegged icons
-    const peggedDir = path.join(ICONS_DIR, 'pegged');
-    const availableIcons = fs.existsSync(peggedDir) 
-        ? fs.readdirSync(peggedDir).filter(f => f.endsWith('.png'))
-        : [];
+    const peggedIcons = localIconSlugs('pegged');
+    const availableIcons = [...peggedIcons.keys()].filter(slug => cleanSlug(slug) === slug);
+    const matcher = createIconMatcher(availableIcons, { stopWords: ['token', 'stablecoin'], sources: peggedIcons });
     console.log(`Available pegged icons: ${availableIcons.length}\n`);
 
-    const mappings: TokenMapping[] = [];
+    const matched: PendingTokenMapping[] = [];
     const notFound: string[] = [];
     const noAddress: string[] = [];
 
@@ -192,8 +161,12 @@ async function main() {
     let processed = 0;
 
     for (const stablecoin of sortedStablecoins.slice(0, 100)) { // Top 100
-        const slug = findIconSlug(stablecoin.name, stablecoin.symbol);
-        if (!slug) {
+        const candidates = matcher.match([
+            { term: stablecoin.name },
+            { term: stablecoin.symbol, weight: SYMBOL_WEIGHT },
+        ]);
+        const best = candidates[0];
+        if (!best || best.confidence < MIN_CONFIDENCE) {
             notFound.push(`${stablecoin.name} (${stablecoin.symbol})`);
             continue;
         }
@@ -206,12 +179,15 @@ async function main() {
 
             // Primary address (usually Ethereum)
             if (detail.address && detail.address.startsWith('0x')) {
-                mappings.push({
+                matched.push({
                     token: detail.address.toLowerCase(),
                     chainId: 1,
-                    slug,
+                    slug: best.slug,
                     name: stablecoin.name,
                     symbol: stablecoin.symbol,
+                    method: best.method,
+                    confidence: best.confidence,
+                    candidates: candidates.map(({ slug, confidence, method }) => ({ slug, confidence, method })),
                 });
             }
 
@@ -245,7 +221,8 @@ async function main() {
         }
     }
 
-    console.log(`\n\nGenerated ${mappings.length} mappings`);
+    const { mappings, pending } = splitByConfidence(matched);
+    console.log(`\n\nGenerated ${mappings.length} mappings (${pending.length} more need review)`);
     console.log(`Icons not found for: ${notFound.length} stablecoins`);
     if (notFound.length > 0) {
         console.log('Missing icons:', notFound.slice(0, 10).join(', '), 
@@ -315,7 +292,7 @@ async function main() {
     // Merge mappings (manual takes precedence)
     const manualKeys = new Set(manualMappings.map(m => `${m.token}-${m.chainId}`));
     const finalMappings = [
-        ...manualMappings,
+        ...manualMappings.map(m => ({ ...m, method: 'manual' as const })),
         ...mappings.filter(m => !manualKeys.has(`${m.token}-${m.chainId}`)),
     ];
 
@@ -328,22 +305,16 @@ async function main() {
         return true;
     });
 
-    // Write output
-    const output = {
-        version: '1.0.0',
-        generatedAt: new Date().toISOString().split('T')[0],
-        contract: '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc',
-        network: 'mainnet',
-        description: 'Token address to icon slug mappings for IconRegistry',
-        usage: {
-            solidity: 'registry.getIconByToken(tokenAddress, chainId)',
-            ethersjs: 'await registry.getIconByToken("0x...", 1) // Returns PNG bytes',
-        },
-        mappings: uniqueMappings.sort((a, b) => a.chainId - b.chainId || a.token.localeCompare(b.token)),
-    };
+    // Write output, replacing our own entries and keeping the rest
+    const file = loadTokenMappingsFile();
+    const { mappings: merged } = mergeTokenMappings(file.mappings, uniqueMappings, { replace: true });
+    saveTokenMappingsFile({ ...file, mappings: merged });
+    console.log(`\nWrote ${uniqueMappings.length} stablecoin mappings (${merged.length} total) to ${TOKEN_MAPPINGS_FILE}`);
 
-    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(output, null, 2) + '\n');
-    console.log(`\nWrote ${uniqueMappings.length} mappings to ${OUTPUT_FILE}`);
+    const queued = queuePendingTokenMappings(pending, merged);
+    if (queued > 0) {
+        console.log(`Queued ${queued} low-confidence matches for review in ${PENDING_TOKEN_MAPPINGS_FILE}`);
+    }
 
     // Summary by chain
     const byChain = new Map<number, number>();
@@ -0,0 +1,241 @@
+#!/usr/bin/env npx tsx
+/**
+ * Token Mappings
+ *
+ * Typed access to docs/token-mappings.json, the token address → icon slug list
+ * that setup-token-mappings.ts deploys with mapTokensBatch. Several generators
+ * write to it (sync-token-mappings.ts for DefiLlama stablecoins,
+ * import-token-list.ts for Uniswap-standard token lists), so each one merges its
+ * entries into the file rather than replacing it.
+ *
+ * Entries are keyed by chain ID and lowercased address. Generated entries carry
+ * the match method and confidence from icon-matcher.ts:
+ *
+ *   { "token": "0x1f98...f984", "chainId": 1, "slug": "protocols/uniswap", "name": "Uniswap",
+ *     "symbol": "UNI", "method": "exact", "confidence": 1 }
+ *
+ * Matches below REVIEW_CONFIDENCE go to docs/pending-token-mappings.json with
+ * their candidate icons instead. A reviewer accepts one (optionally picking a
+ * different candidate), which moves it to token-mappings.json with
+ * "reviewed": true. setup-token-mappings.ts refuses to deploy low-confidence
+ * entries that weren't reviewed. Entries without a confidence were curated by
+ * hand and are trusted.
+ *
+ * The file is checked against its JSON Schema in docs/schemas/ when it is loaded
+ * and before it is saved (see schemas.ts).
+ *
+ * Usage:
+ *   import { loadTokenMappingsFile, mergeTokenMappings, saveTokenMappingsFile } from './token-mappings';
+ *   const file = loadTokenMappingsFile();
+ *   const { mappings } = mergeTokenMappings(file.mappings, generated);
+ *   saveTokenMappingsFile({ ...file, mappings });
+ *
+ *   npx tsx scripts/token-mappings.ts                               # List pending mappings
+ *   npx tsx scripts/token-mappings.ts accept 1:0xabc... [slug]      # Accept (with another icon)
+ *   npx tsx scripts/token-mappings.ts reject 1:0xabc...             # Drop from the queue
+ *
+ * Environment:
+ *   REVIEW_CONFIDENCE - Matches below this need review (default: 0.9)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IconMatch } from './icon-matcher';
+import { localIconSlugs } from './registry-state';
+import { assertValidArtifact, loadArtifact } from './schemas';
+import type { TokenMapping, TokenMappingsFile } from './schema-types';
+
+export type { TokenMapping, TokenMappingsFile } from './schema-types';
+
+export const TOKEN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'token-mappings.json');
+export const PENDING_TOKEN_MAPPINGS_FILE = path.join(__dirname, '..', 'docs', 'pending-token-mappings.json');
+export const REVIEW_CONFIDENCE = parseFloat(process.env.REVIEW_CONFIDENCE || '0.9');
+
+/** How a mapping's icon was chosen; "manual" for curated lists in the generators */
+export type TokenMatchMethod = NonNullable<TokenMapping['method']>;
+
+export interface PendingTokenMapping extends TokenMapping {
+    /** Best icons for the token, highest confidence first; `slug` is the first */
+    candidates: Array<Pick<IconMatch, 'slug' | 'confidence' | 'method'>>;
+}
+
+export interface PendingTokenMappingsFile {
+    description: string;
+    reviewConfidence: number;
+    mappings: PendingTokenMapping[];
+}
+
+export interface MergeResult {
+    mappings: TokenMapping[];
+    added: TokenMapping[];
+    /** Incoming entries that disagree with an existing (or reviewed) entry for the same token */
+    conflicts: Array<{ existing: TokenMapping; incoming: TokenMapping }>;
+}
+
+export function tokenMappingKey(mapping: { token: string; chainId: number }): string {
+    return `${mapping.chainId}:${mapping.token.toLowerCase()}`;
+}
+
+/** Sort by chain ID, then address, the order the file is kept in */
+export function sortTokenMappings(mappings: TokenMapping[]): TokenMapping[] {
+    return [...mappings].sort((a, b) => a.chainId - b.chainId || a.token.localeCompare(b.token));
+}
+
+/** Low-confidence entries that no reviewer has accepted */
+export function needsReview(mapping: TokenMapping): boolean {
+    return mapping.confidence !== undefined && mapping.confidence < REVIEW_CONFIDENCE && !mapping.reviewed;
+}
+
+export function loadTokenMappingsFile(file: string = TOKEN_MAPPINGS_FILE): TokenMappingsFile {
+    return loadArtifact('token-mappings', file);
+}
+
+export function saveTokenMappingsFile(data: TokenMappingsFile, file: string = TOKEN_MAPPINGS_FILE): void {
+    const output: TokenMappingsFile = {
+        ...data,
+        generatedAt: new Date().toISOString().split('T')[0],
+        mappings: sortTokenMappings(data.mappings),
+    };
+    assertValidArtifact('token-mappings', output, file);
+    fs.writeFileSync(file, JSON.stringify(output, null, 2) + '\n');
+}
+
+/**
+ * Merge generated entries into existing ones. With `replace`, incoming entries
+ * overwrite existing ones for the same token, except reviewed ones; otherwise
+ * existing entries (often hand-curated) win. Disagreements that aren't applied
+ * are returned as conflicts.
+ */
+export function mergeTokenMappings(
+    existing: TokenMapping[],
+    incoming: TokenMapping[],
+    options: { replace?: boolean } = {}
+): MergeResult {
+    const byKey = new Map(existing.map(m => [tokenMappingKey(m), m]));
+    const added: TokenMapping[] = [];
+    const conflicts: MergeResult['conflicts'] = [];
+
+    for (const mapping of incoming) {
+        const key = tokenMappingKey(mapping);
+        const current = byKey.get(key);
+        if (!current) {
+            added.push(mapping);
+        } else if (current.slug !== mapping.slug) {
+            // A reviewer's decision outranks a regenerated match
+            if (!options.replace || current.reviewed) {
+                conflicts.push({ existing: current, incoming: mapping });
+                continue;
+            }
+        } else if (!options.replace || current.reviewed) {
+            continue;
+        }
+        byKey.set(key, { ...mapping, token: mapping.token.toLowerCase() });
+    }
+
+    return { mappings: sortTokenMappings([...byKey.values()]), added, conflicts };
+}
+
+/**
+ * Split generated matches: confident ones are mappings, the rest are queued for
+ * review with their candidates.
+ */
+export function splitByConfidence(matches: PendingTokenMapping[]): { mappings: TokenMapping[]; pending: PendingTokenMapping[] } {
+    const mappings: TokenMapping[] = [];
+    const pending: PendingTokenMapping[] = [];
+    for (const match of matches) {
+        if (match.confidence !== undefined && match.confidence < REVIEW_CONFIDENCE) {
+            pending.push(match);
+        } else {
+            const { candidates, ...mapping } = match;
+            mappings.push(mapping);
+        }
+    }
+    return { mappings, pending };
+}
+
+export function loadPendingTokenMappings(file: string = PENDING_TOKEN_MAPPINGS_FILE): PendingTokenMapping[] {
+    if (!fs.existsSync(file)) return [];
+    return (JSON.parse(fs.readFileSync(file, 'utf-8')) as PendingTokenMappingsFile).mappings;
+}
+
+export function savePendingTokenMappings(pending: PendingTokenMapping[], file: string = PENDING_TOKEN_MAPPINGS_FILE): void {
+    const output: PendingTokenMappingsFile = {
+        description: 'Token mappings below the review threshold. Accept with: npx tsx scripts/token-mappings.ts accept <chainId>:<token> [slug]',
+        reviewConfidence: REVIEW_CONFIDENCE,
+        mappings: [...pending].sort((a, b) => a.chainId - b.chainId || a.token.localeCompare(b.token)),
+    };
+    fs.writeFileSync(file, JSON.stringify(output, null, 2) + '\n');
+}
+
+/**
+ * Queue matches for review, replacing earlier queue entries for the same token.
+ * Tokens that already have a mapping aren't queued. Returns the number queued.
+ */
+export function queuePendingTokenMappings(incoming: PendingTokenMapping[], mapped: TokenMapping[]): number {
+    const mappedKeys = new Set(mapped.map(tokenMappingKey));
+    const byKey = new Map(loadPendingTokenMappings().map(m => [tokenMappingKey(m), m]));
+    let queued = 0;
+
+    for (const mapping of incoming) {
+        const key = tokenMappingKey(mapping);
+        if (mappedKeys.has(key)) continue;
+        byKey.set(key, { ...mapping, token: mapping.token.toLowerCase() });
+        queued++;
+    }
+    // Drop entries that were mapped some other way since they were queued
+    for (const key of mappedKeys) byKey.delete(key);
+
+    savePendingTokenMappings([...byKey.values()]);
+    return queued;
+}
+
+// CLI usage
+if (require.main === module) {
+    try {
+        const [command, key, slugOverride] = process.argv.slice(2);
+        const pending = loadPendingTokenMappings();
+
+        if (!command) {
+            const unreviewed = loadTokenMappingsFile().mappings.filter(needsReview);
+            console.log(`${PENDING_TOKEN_MAPPINGS_FILE}: ${pending.length} mappings awaiting review (confidence < ${REVIEW_CONFIDENCE})\n`);
+            for (const m of pending) {
+                const candidates = m.candidates.map(c => `${c.slug} ${c.confidence.toFixed(2)}`).join(', ');
+                console.log(`  ${tokenMappingKey(m)} ${m.name} (${m.symbol}): ${candidates || 'no candidates'}`);
+            }
+            if (unreviewed.length > 0) {
+                console.error(`\n${unreviewed.length} unreviewed low-confidence entries in ${TOKEN_MAPPINGS_FILE}:`);
+                unreviewed.forEach(m => console.error(`  ${tokenMappingKey(m)} → ${m.slug} (${m.method} ${m.confidence})`));
+                process.exit(1);
+            }
+        } else if (command === 'accept' || command === 'reject') {
+            const entry = pending.find(m => tokenMappingKey(m) === key?.toLowerCase());
+            if (!entry) throw new Error(`No pending mapping ${key}; expected <chainId>:<token>`);
+            const remaining = pending.filter(m => m !== entry);
+
+            if (command === 'accept') {
+                const slug = slugOverride ?? entry.slug;
+                const category = slug.split('/')[0];
+                if (!localIconSlugs(category).has(slug)) throw new Error(`No icon for ${slug} in icons-64/`);
+
+                const { candidates, method, confidence, ...mapping } = entry;
+                const candidate = candidates.find(c => c.slug === slug);
+                const accepted: TokenMapping = candidate
+                    ? { ...mapping, slug, method: candidate.method, confidence: candidate.confidence, reviewed: true }
+                    : { ...mapping, slug, method: 'manual', reviewed: true };
+
+                const file = loadTokenMappingsFile();
+                const { mappings } = mergeTokenMappings(file.mappings, [accepted], { replace: true });
+                saveTokenMappingsFile({ ...file, mappings });
+                console.log(`Accepted ${key} → ${slug}`);
+            } else {
+                console.log(`Rejected ${key}`);
+            }
+            savePendingTokenMappings(remaining);
+        } else {
+            throw new Error(`Unknown command ${command}; expected accept or reject`);
+        }
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : err);
+        process.exit(1);
+    }
+}
@@ -0,0 +1,321 @@
+/**
+ * Transaction Manager
+ *
+ * Shared sender for owner transactions. Tracks the nonce locally instead of
+ * re-fetching it per batch, prices transactions with EIP-1559 fees
+ * (maxFeePerGas / maxPriorityFeePerGas) under a hard cap, and watches each
+ * transaction until it is mined: if it is stuck in the mempool or dropped, it
+ * is re-broadcast with the same nonce and bumped fees. A total spend cap stops
+ * the run before it can exceed the configured budget.
+ *
+ * Usage:
+ *   const txManager = createTxManager({ publicClient, walletClient, maxFeePerGasGwei: 0.1, maxSpendEth: 0.05 });
+ *   await txManager.waitForGas();
+ *   const { hash, receipt } = await txManager.send({ to: PROXY_ADDRESS, data });
+ *
+ * Environment (read by the scripts that use it):
+ *   MAX_GAS_PRICE_GWEI - Cap for maxFeePerGas
+ *   PRIORITY_FEE_GWEI  - Fixed maxPriorityFeePerGas (default: node estimate)
+ *   MAX_SPEND_ETH      - Total spend cap for the run (default: unlimited)
+ */
+
+import {
+    formatEther,
+    formatGwei,
+    parseEther,
+    parseGwei,
+    type PublicClient,
+    type TransactionReceipt,
+    type WalletClient,
+} from 'viem';
+
+export interface TxManagerConfig {
+    publicClient: PublicClient;
+    walletClient: WalletClient;
+    /** Hard cap for maxFeePerGas; replacements never exceed it */
+    maxFeePerGasGwei?: number;
+    /** Fixed tip; defaults to the node's estimate */
+    priorityFeeGwei?: number;
+    /** Total spend cap (gas used * effective price) across all sends */
+    maxSpendEth?: number;
+    /** Buffer added to estimateGas (default: 20%) */
+    gasBufferPercent?: number;
+    /** Fee bump per replacement; nodes require at least 10% (default: 20%) */
+    feeBumpPercent?: number;
+    /** Time without a receipt before a tx counts as stuck (default: 90s) */
+    stuckAfterMs?: number;
+    /** Replacement attempts before giving up (default: 5) */
+    maxReplacements?: number;
+    pollIntervalMs?: number;
+    /** Signer only records transactions (see signer.ts); send returns without a receipt */
+    exportOnly?: boolean;
+}
+
+export interface TxRequest {
+    /** Omit for contract creation */
+    to?: `0x${string}`;
+    data: `0x${string}`;
+    value?: bigint;
+    /** Skip estimateGas and use this limit */
+    gas?: bigint;
+}
+
+export interface SendHooks {
+    /** Called for the original broadcast and every replacement */
+    onBroadcast?(tx: { hash: `0x${string}`; nonce: number; from: `0x${string}`; replacement: boolean }): void;
+}
+
+export interface SentTransaction {
+    hash: `0x${string}`;
+    nonce: number;
+    /** Undefined when the signer is export-only */
+    receipt?: TransactionReceipt;
+    /** Every hash broadcast for this nonce, oldest first */
+    hashes: `0x${string}`[];
+    /** gasUsed * effectiveGasPrice */
+    cost: bigint;
+}
+
+export interface Fees {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+}
+
+export interface TxManager {
+    address: `0x${string}`;
+    /** Total wei spent by confirmed transactions */
+    readonly spent: bigint;
+
+    /** Block until the network gas price is at or below the cap */
+    waitForGas(): Promise<bigint>;
+    getFees(): Promise<Fees>;
+    send(tx: TxRequest, hooks?: SendHooks): Promise<SentTransaction>;
+    /** Drop the local nonce so the next send re-reads it from the chain */
+    resetNonce(): void;
+}
+
+export class SpendCapExceededError extends Error {
+    constructor(readonly spent: bigint, readonly required: bigint, readonly cap: bigint) {
+        super(`Spend cap exceeded: spent ${formatEther(spent)} ETH + up to ${formatEther(required)} ETH > cap ${formatEther(cap)} ETH`);
+        this.name = 'SpendCapExceededError';
+    }
+}
+
+export class StuckTransactionError extends Error {
+    constructor(readonly nonce: number, readonly hashes: `0x${string}`[]) {
+        super(`Transaction with nonce ${nonce} not mined after ${hashes.length} broadcasts (last: ${hashes[hashes.length - 1]})`);
+        this.name = 'StuckTransactionError';
+    }
+}
+
+async function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function errorMessage(err: unknown): string {
+    return (err instanceof Error ? err.message : String(err)).toLowerCase();
+}
+
+/** Read the tx-manager options the scripts share from the environment */
+export function txManagerEnv(): Pick<TxManagerConfig, 'maxFeePerGasGwei' | 'priorityFeeGwei' | 'maxSpendEth'> {
+    return {
+        maxFeePerGasGwei: process.env.MAX_GAS_PRICE_GWEI ? parseFloat(process.env.MAX_GAS_PRICE_GWEI) : undefined,
+        priorityFeeGwei: process.env.PRIORITY_FEE_GWEI ? parseFloat(process.env.PRIORITY_FEE_GWEI) : undefined,
+        maxSpendEth: process.env.MAX_SPEND_ETH ? parseFloat(process.env.MAX_SPEND_ETH) : undefined,
+    };
+}
+
+export function createTxManager(config: TxManagerConfig): TxManager {
+    const { publicClient, walletClient } = config;
+    const account = walletClient.account;
+    if (!account) throw new Error('No account attached to wallet client');
+
+    const maxFeeCap = config.maxFeePerGasGwei !== undefined ? parseGwei(config.maxFeePerGasGwei.toString()) : undefined;
+    const fixedTip = config.priorityFeeGwei !== undefined ? parseGwei(config.priorityFeeGwei.toString()) : undefined;
+    const spendCap = config.maxSpendEth !== undefined ? parseEther(config.maxSpendEth.toString()) : undefined;
+    const gasBuffer = BigInt(config.gasBufferPercent ?? 20);
+    const feeBump = BigInt(config.feeBumpPercent ?? 20);
+    const stuckAfterMs = config.stuckAfterMs ?? 90_000;
+    const maxReplacements = config.maxReplacements ?? 5;
+    const pollIntervalMs = config.pollIntervalMs ?? 4_000;
+
+    let nextNonce: number | undefined;
+    let spent = 0n;
+
+    const capFees = (fees: Fees): Fees => {
+        const maxFeePerGas = maxFeeCap !== undefined && fees.maxFeePerGas > maxFeeCap ? maxFeeCap : fees.maxFeePerGas;
+        const maxPriorityFeePerGas = fees.maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : fees.maxPriorityFeePerGas;
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    };
+
+    const bumpFees = async (previous: Fees): Promise<Fees | undefined> => {
+        const current = await manager.getFees();
+        const bump = (v: bigint) => v + (v * feeBump) / 100n;
+        const bumped = capFees({
+            maxFeePerGas: current.maxFeePerGas > bump(previous.maxFeePerGas) ? current.maxFeePerGas : bump(previous.maxFeePerGas),
+            maxPriorityFeePerGas: current.maxPriorityFeePerGas > bump(previous.maxPriorityFeePerGas)
+                ? current.maxPriorityFeePerGas
+                : bump(previous.maxPriorityFeePerGas),
+        });
+        // Nodes reject replacements that don't raise both fees by at least 10%
+        const minimum = (v: bigint) => v + v / 10n;
+        if (bumped.maxFeePerGas < minimum(previous.maxFeePerGas) || bumped.maxPriorityFeePerGas < minimum(previous.maxPriorityFeePerGas)) {
+            return undefined;
+        }
+        return bumped;
+    };
+
+    const reserveNonce = async (): Promise<number> => {
+        if (nextNonce === undefined) {
+            nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+        }
+        return nextNonce++;
+    };
+
+    const broadcast = async (tx: TxRequest, gas: bigint, nonce: number, fees: Fees): Promise<`0x${string}`> => {
+        return walletClient.sendTransaction({
+            account,
+            chain: walletClient.chain,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            gas,
+            nonce,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        });
+    };
+
+    const findReceipt = async (hashes: `0x${string}`[]): Promise<TransactionReceipt | undefined> => {
+        for (const hash of [...hashes].reverse()) {
+            const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+            if (receipt) return receipt;
+        }
+        return undefined;
+    };
+
+    const manager: TxManager = {
+        address: account.address,
+        get spent() {
+            return spent;
+        },
+
+        waitForGas: async () => {
+            while (true) {
+                const gasPrice = await publicClient.getGasPrice();
+                if (maxFeeCap === undefined || gasPrice <= maxFeeCap) return gasPrice;
+                process.stdout.write(`\rGas: ${formatGwei(gasPrice)} gwei > ${formatGwei(maxFeeCap)} gwei - waiting...    `);
+                await sleep(6000);
+            }
+        },
+
+        getFees: async () => {
+            const estimate = await publicClient.estimateFeesPerGas();
+            const tip = fixedTip ?? estimate.maxPriorityFeePerGas;
+            const maxFeePerGas = estimate.maxFeePerGas - estimate.maxPriorityFeePerGas + tip;
+            return capFees({ maxFeePerGas, maxPriorityFeePerGas: tip });
+        },
+
+        send: async (tx, hooks = {}) => {
+            const estimate = tx.gas ?? await publicClient.estimateGas({
+                account: account.address,
+                to: tx.to,
+                data: tx.data,
+                value: tx.value,
+            });
+            const gas = tx.gas ?? estimate + (estimate * gasBuffer) / 100n;
+
+            let fees = await manager.getFees();
+            if (spendCap !== undefined && spent + gas * fees.maxFeePerGas > spendCap) {
+                throw new SpendCapExceededError(spent, gas * fees.maxFeePerGas, spendCap);
+            }
+
+            let nonce = await reserveNonce();
+            const hashes: `0x${string}`[] = [];
+
+            // Initial broadcast; resync once if our local nonce fell behind the chain
+            try {
+                hashes.push(await broadcast(tx, gas, nonce, fees));
+            } catch (err) {
+                if (!errorMessage(err).includes('nonce too low')) {
+                    manager.resetNonce();
+                    throw err;
+                }
+                manager.resetNonce();
+                nonce = await reserveNonce();
+                hashes.push(await broadcast(tx, gas, nonce, fees));
+            }
+            hooks.onBroadcast?.({ hash: hashes[0], nonce, from: account.address, replacement: false });
+            if (config.exportOnly) return { hash: hashes[0], nonce, hashes, cost: 0n };
+
+            let replacements = 0;
+            let stuckAt = Date.now() + stuckAfterMs;
+
+            while (true) {
+                const receipt = await findReceipt(hashes);
+                if (receipt) {
+                    const cost = receipt.gasUsed * receipt.effectiveGasPrice;
+                    spent += cost;
+                    return { hash: receipt.transactionHash, nonce, receipt, hashes, cost };
+                }
+
+                if (Date.now() < stuckAt) {
+                    await sleep(pollIntervalMs);
+                    continue;
+                }
+
+                const latestNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' });
+                if (latestNonce > nonce) {
+                    // Nonce is used; give the node a moment to index the receipt of whichever hash landed
+                    await sleep(pollIntervalMs);
+                    if (await findReceipt(hashes)) continue;
+                    throw new StuckTransactionError(nonce, hashes);
+                }
+
+                if (replacements >= maxReplacements) {
+                    throw new StuckTransactionError(nonce, hashes);
+                }
+                replacements++;
+
+                const last = hashes[hashes.length - 1];
+                const inMempool = await publicClient.getTransaction({ hash: last }).then(() => true, () => false);
+                const bumped = await bumpFees(fees);
+                if (!bumped) {
+                    console.log(`\nTx ${last} ${inMempool ? 'stuck' : 'dropped'} but fees are at the cap; waiting...`);
+                    if (!inMempool) {
+                        const hash = await broadcast(tx, gas, nonce, fees).catch(() => undefined);
+                        if (hash && !hashes.includes(hash)) hashes.push(hash);
+                    }
+                    stuckAt = Date.now() + stuckAfterMs;
+                    continue;
+                }
+
+                if (spendCap !== undefined && spent + gas * bumped.maxFeePerGas > spendCap) {
+                    throw new SpendCapExceededError(spent, gas * bumped.maxFeePerGas, spendCap);
+                }
+
+                console.log(`\nTx ${last} ${inMempool ? 'stuck' : 'dropped'}; replacing at ${formatGwei(bumped.maxFeePerGas)} gwei (attempt ${replacements}/${maxReplacements})`);
+                try {
+                    const hash = await broadcast(tx, gas, nonce, bumped);
+                    hashes.push(hash);
+                    fees = bumped;
+                    hooks.onBroadcast?.({ hash, nonce, from: account.address, replacement: true });
+                } catch (err) {
+                    const message = errorMessage(err);
+                    // Underpriced: retry with a bigger bump next round; nonce too low: a hash was mined
+                    if (!message.includes('underpriced') && !message.includes('nonce too low') && !message.includes('already known')) {
+                        throw err;
+                    }
+                    fees = bumped;
+                }
+                stuckAt = Date.now() + stuckAfterMs;
+            }
+        },
+
+        resetNonce: () => {
+            nextNonce = undefined;
+        },
+    };
+
+    return manager;
+}
@@ -3,56 +3,46 @@
  * Upgrade IconRegistry to a new implementation
  * 
  * This script deploys a new implementation contract and calls upgradeTo on the proxy.
- * Uses Turnkey for secure signing.
+ * With SIGNER=safe both steps go into a Safe Transaction Builder bundle, and the
+ * implementation is deployed through the CREATE2 factory.
+ * Signs with the backend selected by SIGNER (Turnkey by default; see signer.ts).
  * 
  * Usage:
  *   DRY_RUN=true npx tsx scripts/upgrade-contract.ts   # Preview only
  *   npx tsx scripts/upgrade-contract.ts                 # Deploy upgrade
+ *   SIMULATE=anvil ANVIL_FORK_URL=<rpc> npx tsx scripts/upgrade-contract.ts  # Rehearse on a local fork
  * 
  * Environment:
+ *   SIGNER (optional, turnkey | keystore | private-key | unsigned | safe; defaults to turnkey)
  *   TURNKEY_API_PUBLIC_KEY, TURNKEY_API_PRIVATE_KEY, TURNKEY_ORGANIZATION_ID, TURNKEY_SIGN_WITH
  *   RPC_URL (optional, defaults to public RPC)
- *   MAX_GAS_PRICE_GWEI (optional, defaults to 0.1)
+ *   MAX_GAS_PRICE_GWEI (optional, defaults to 0.1; also the maxFeePerGas cap)
+ *   PRIORITY_FEE_GWEI (optional, defaults to node estimate)
+ *   MAX_SPEND_ETH (optional, total spend cap for both transactions)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { createPublicClient, http, encodeFunctionData, formatGwei, parseGwei, keccak256 } from 'viem';
+import { createPublicClient, http, encodeFunctionData, formatEther, formatGwei, getContractAddress, keccak256 } from 'viem';
 import { mainnet } from 'viem/chains';
-import { createTurnkeySigner } from './turnkey-signer';
+import { createSigner, describeSigner } from './signer';
+import { isSimulation, startAnvilSimulation } from './anvil-simulation';
+import { ICON_REGISTRY_ABI, PROXY_ADDRESS } from './icon-registry-abi';
+import { createIconRegistryClient } from './icon-registry-client';
+import { create2Deployment } from './safe-bundle';
+import { createTxManager, txManagerEnv } from './tx-manager';
 import { execSync } from 'child_process';
 
-const PROXY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const RPC_URL = process.env.RPC_URL || 'https://ethereum-rpc.publicnode.com';
 const FALLBACK_RPC_URL = 'https://eth.drpc.org';
 const DRY_RUN = process.env.DRY_RUN === 'true';
 const MAX_GAS_PRICE_GWEI = parseFloat(process.env.MAX_GAS_PRICE_GWEI || '0.1');
-
-const UUPS_ABI = [
-    {
-        name: 'upgradeToAndCall',
-        type: 'function',
-        inputs: [
-            { name: 'newImplementation', type: 'address' },
-            { name: 'data', type: 'bytes' },
-        ],
-        outputs: [],
-    },
-    {
-        name: 'owner',
-        type: 'function',
-        inputs: [],
-        outputs: [{ type: 'address' }],
-    },
-] as const;
+// upgradeToAndCall with empty calldata uses ~40k gas
+const EXPORTED_UPGRADE_GAS = 150_000n;
 
 // ERC1967 implementation slot
 const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
 
-async function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 async function createRpcClient(primary: string, fallback: string) {
     const { fallback: viemFallback } = await import('viem');
     return createPublicClient({
@@ -90,12 +80,13 @@ async function deployNewImplementation(signerAddress: string): Promise<string> {
 
 async function main() {
     console.log('=== IconRegistry Contract Upgrade ===\n');
-    console.log(`Mode: ${DRY_RUN ? 'DRY RUN' : 'LIVE UPGRADE'}`);
+    const sim = isSimulation() ? await startAnvilSimulation() : undefined;
+    console.log(`Mode: ${sim ? 'SIMULATE (anvil)' : DRY_RUN ? 'DRY RUN' : 'LIVE UPGRADE'}`);
     console.log(`Proxy: ${PROXY_ADDRESS}`);
     console.log(`Max gas: ${MAX_GAS_PRICE_GWEI} gwei`);
     console.log(`RPC: ${RPC_URL}\n`);
 
-    const publicClient = await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
+    const publicClient = sim?.publicClient ?? await createRpcClient(RPC_URL, FALLBACK_RPC_URL);
 
     // Get current implementation
     const currentImpl = await getCurrentImplementation(publicClient);
@@ -104,7 +95,7 @@ async function main() {
     // Get owner
     const owner = await publicClient.readContract({
         address: PROXY_ADDRESS,
-        abi: UUPS_ABI,
+        abi: ICON_REGISTRY_ABI,
         functionName: 'owner',
     });
     console.log(`Owner: ${owner}\n`);
@@ -121,99 +112,89 @@ async function main() {
     console.log(`New bytecode size: ${(bytecode.length - 2) / 2} bytes`);
     console.log(`New bytecode hash: ${newBytecodeHash}\n`);
 
-    if (DRY_RUN) {
+    if (DRY_RUN && !sim) {
         console.log('=== DRY RUN ===');
         console.log('Would deploy new implementation and upgrade proxy.');
         console.log('Run without DRY_RUN=true to execute.');
         return;
     }
 
-    // Initialize Turnkey signer
-    console.log('Initializing Turnkey signer...');
-    const { client: walletClient, address } = await createTurnkeySigner({ rpcUrl: RPC_URL });
-    console.log(`Signer: ${address}`);
+    // Initialize the configured signer (or the impersonated owner when simulating)
+    console.log(sim ? 'Using impersonated owner...' : 'Initializing signer...');
+    const signer = sim ? sim.signer : await createSigner({ rpcUrl: RPC_URL });
+    const { client: walletClient, address } = signer;
+    console.log(`Signer: ${describeSigner(signer)}`);
 
     if (address.toLowerCase() !== owner.toLowerCase()) {
         throw new Error(`Signer ${address} is not the owner ${owner}`);
     }
 
-    // Wait for acceptable gas price
-    const maxGasWei = parseGwei(MAX_GAS_PRICE_GWEI.toString());
-    let gasPrice: bigint;
+    const txManager = createTxManager({
+        publicClient,
+        walletClient,
+        ...txManagerEnv(),
+        maxFeePerGasGwei: MAX_GAS_PRICE_GWEI,
+        stuckAfterMs: 180_000,
+        exportOnly: signer.exportOnly,
+    });
+    const logBroadcast = (label: string) => ({
+        onBroadcast: ({ hash, replacement }: { hash: `0x${string}`; replacement: boolean }) =>
+            console.log(`${label} tx${replacement ? ' (replacement)' : ''}: ${hash}`),
+    });
 
+    // Wait for acceptable gas price
     console.log('\nWaiting for acceptable gas price...');
-    while (true) {
-        gasPrice = await publicClient.getGasPrice();
-        if (gasPrice <= maxGasWei) break;
-        process.stdout.write(`\rGas: ${formatGwei(gasPrice)} gwei > ${MAX_GAS_PRICE_GWEI} gwei - waiting...    `);
-        await sleep(6000);
-    }
+    const gasPrice = await txManager.waitForGas();
     console.log(`Gas: ${formatGwei(gasPrice)} gwei [OK]`);
 
     // Step 1: Deploy new implementation
     console.log('\n[1/2] Deploying new implementation...');
-    
-    const deployGasEstimate = await publicClient.estimateGas({
-        account: address,
-        data: bytecode,
-    });
-    console.log(`Estimated gas: ${deployGasEstimate.toLocaleString()}`);
-
-    const nonce = await publicClient.getTransactionCount({ address });
-    const bufferedGasPrice = gasPrice + (gasPrice * 10n / 100n);
-
-    const deployTxHash = await walletClient.sendTransaction({
-        data: bytecode,
-        gas: deployGasEstimate + (deployGasEstimate * 20n / 100n),
-        gasPrice: bufferedGasPrice,
-        nonce,
-    });
-    console.log(`Deploy tx: ${deployTxHash}`);
 
-    const deployReceipt = await publicClient.waitForTransactionReceipt({
-        hash: deployTxHash,
-        timeout: 300_000,
-    });
-
-    if (deployReceipt.status !== 'success') {
-        throw new Error('Implementation deployment failed');
+    let newImplementation: `0x${string}`;
+    let deployTxHash: `0x${string}` | undefined;
+
+    if (signer.backend === 'safe') {
+        // A Safe can't CREATE from a plain call; deploy through the CREATE2 factory instead
+        const deployment = create2Deployment(bytecode);
+        newImplementation = deployment.address;
+        if (await publicClient.getCode({ address: newImplementation })) {
+            console.log(`Implementation already deployed at ${newImplementation}; skipping deploy`);
+        } else {
+            ({ hash: deployTxHash } = await txManager.send(deployment.request, logBroadcast('Deploy')));
+        }
+    } else {
+        const { hash, nonce, receipt } = await txManager.send({ data: bytecode }, logBroadcast('Deploy'));
+        if (receipt && receipt.status !== 'success') {
+            throw new Error('Implementation deployment failed');
+        }
+        deployTxHash = hash;
+        // Exported deploys have no receipt; the address follows from sender and nonce
+        newImplementation = receipt?.contractAddress ?? getContractAddress({ from: address, nonce: BigInt(nonce) });
+        if (receipt) console.log(`Gas used: ${receipt.gasUsed.toLocaleString()}`);
     }
-
-    const newImplementation = deployReceipt.contractAddress!;
     console.log(`New implementation: ${newImplementation}`);
-    console.log(`Gas used: ${deployReceipt.gasUsed.toLocaleString()}`);
 
     // Step 2: Upgrade proxy
     console.log('\n[2/2] Upgrading proxy...');
 
     const upgradeData = encodeFunctionData({
-        abi: UUPS_ABI,
+        abi: ICON_REGISTRY_ABI,
         functionName: 'upgradeToAndCall',
         args: [newImplementation, '0x'],
     });
 
-    const upgradeGasEstimate = await publicClient.estimateGas({
-        account: address,
-        to: PROXY_ADDRESS,
-        data: upgradeData,
-    });
-
-    const upgradeNonce = await publicClient.getTransactionCount({ address });
-    
-    const upgradeTxHash = await walletClient.sendTransaction({
-        to: PROXY_ADDRESS,
-        data: upgradeData,
-        gas: upgradeGasEstimate + (upgradeGasEstimate * 20n / 100n),
-        gasPrice: bufferedGasPrice,
-        nonce: upgradeNonce,
-    });
-    console.log(`Upgrade tx: ${upgradeTxHash}`);
-
-    const upgradeReceipt = await publicClient.waitForTransactionReceipt({
-        hash: upgradeTxHash,
-        timeout: 300_000,
-    });
+    // When exporting, the implementation isn't on chain yet and estimateGas would revert
+    const { hash: upgradeTxHash, receipt: upgradeReceipt } = await txManager.send(
+        { to: PROXY_ADDRESS, data: upgradeData, gas: signer.exportOnly ? EXPORTED_UPGRADE_GAS : undefined },
+        logBroadcast('Upgrade')
+    );
 
+    if (!upgradeReceipt) {
+        console.log('\n=== Upgrade Exported ===');
+        console.log(`Transactions exported to ${signer.exportFile}`);
+        console.log(`Expected implementation: ${newImplementation}`);
+        return;
+    }
     if (upgradeReceipt.status !== 'success') {
         throw new Error('Proxy upgrade failed');
     }
@@ -228,8 +209,19 @@ async function main() {
     console.log('\n=== Upgrade Complete ===');
     console.log(`Old implementation: ${currentImpl}`);
     console.log(`New implementation: ${newImplementation}`);
-    console.log(`Deploy tx: https://etherscan.io/tx/${deployTxHash}`);
+    if (deployTxHash) console.log(`Deploy tx: https://etherscan.io/tx/${deployTxHash}`);
     console.log(`Upgrade tx: https://etherscan.io/tx/${upgradeTxHash}`);
+    console.log(`Total spent: ${formatEther(txManager.spent)} ETH`);
+
+    if (sim) {
+        // Existing data must still be readable through the new implementation
+        const registry = createIconRegistryClient({ publicClient });
+        await sim.finish({
+            implementation: verifiedImpl,
+            owner: await registry.owner(),
+            'chainToIcon(1)': await registry.chainToIcon(1),
+        });
+    }
 }
 
 main().catch(err => {
@@ -4,48 +4,17 @@
  * This script samples icons from the manifest and verifies they exist on-chain.
  */
 
-import { createPublicClient, http, Hex } from 'viem';
-import { mainnet } from 'viem/chains';
+import { Hex } from 'viem';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createIconRegistryClient } from './icon-registry-client';
+import { IconNotFoundError } from './registry-errors';
+import { loadManifest } from './schemas';
+import type { ManifestIcon } from './schema-types';
 
-const REGISTRY_ADDRESS = '0x342e808c40D8E00656fEd124CA11aEcBB96c61Fc' as const;
 const RPC_URL = process.env.RPC_URL || 'https://eth.drpc.org';
 const SAMPLE_SIZE = parseInt(process.env.SAMPLE_SIZE || '20', 10);
 
-const registryAbi = [
-  {
-    name: 'getIconBySlug',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'slug', type: 'string' }],
-    outputs: [{ name: '', type: 'bytes' }],
-  },
-  {
-    name: 'getIcon',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'slugHash', type: 'bytes32' }],
-    outputs: [{ name: '', type: 'bytes' }],
-  },
-] as const;
-
-interface ManifestIcon {
-  slug: string;
-  slugHash: string;
-  category: string;
-  name: string;
-  keywords: string[];
-}
-
-interface Manifest {
-  icons: ManifestIcon[];
-  stats: {
-    total: number;
-    byCategory: Record<string, number>;
-  };
-}
-
 async function main() {
   const manifestPath = path.join(__dirname, '../docs/manifest.json');
   
@@ -54,28 +23,31 @@ async function main() {
     process.exit(1);
   }
 
-  const manifest: Manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  const manifest = loadManifest(manifestPath);
   console.log(`[OK] Loaded manifest with ${manifest.icons.length} icons`);
 
-  const client = createPublicClient({
-    chain: mainnet,
-    transport: http(RPC_URL),
-  });
+  const registry = createIconRegistryClient({ rpcUrl: RPC_URL });
+
+  // Icons the manifest knows to be local-only or pending can't load on the demo page
+  const candidates = manifest.icons.filter(i => i.onChain !== false);
+  if (candidates.length < manifest.icons.length) {
+    console.log(`[OK] Skipping ${manifest.icons.length - candidates.length} icons that are not on-chain per the manifest`);
+  }
 
   // Sample icons across categories
-  const categories = [...new Set(manifest.icons.map(i => i.category))];
+  const categories = [...new Set(candidates.map(i => i.category))];
   const sampled: ManifestIcon[] = [];
   
   for (const category of categories) {
-    const categoryIcons = manifest.icons.filter(i => i.category === category);
+    const categoryIcons = candidates.filter(i => i.category === category);
     const perCategory = Math.max(1, Math.floor(SAMPLE_SIZE / categories.length));
     const shuffled = categoryIcons.sort(() => Math.random() - 0.5);
     sampled.push(...shuffled.slice(0, perCategory));
   }
 
   // Add some more random icons if we haven't reached sample size
-  while (sampled.length < SAMPLE_SIZE && sampled.length < manifest.icons.length) {
-    const random = manifest.icons[Math.floor(Math.random() * manifest.icons.length)];
+  while (sampled.length < SAMPLE_SIZE && sampled.length < candidates.length) {
+    const random = candidates[Math.floor(Math.random() * candidates.length)];
     if (!sampled.find(s => s.slug === random.slug)) {
       sampled.push(random);
     }
@@ -91,12 +63,7 @@ async function main() {
   
   for (const icon of sampled) {
     try {
-      const data = await client.readContract({
-        address: REGISTRY_ADDRESS,
-        abi: registryAbi,
-        functionName: 'getIconBySlug',
-        args: [icon.slug],
-      });
+      const data = await registry.getIconBySlug(icon.slug);
 
       if (!data || (data as Hex).length < 10) {
         console.log(`  [SKIP] ${icon.slug} (not on-chain)`);
@@ -117,12 +84,12 @@ async function main() {
       console.log(`  [OK] ${icon.slug} (${sizeBytes} bytes)`);
       passed++;
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      // IconNotFound error (0xdf2f52d5) means icon not uploaded yet - not a failure
-      if (errorMsg.includes('0xdf2f52d5') || errorMsg.includes('IconNotFound')) {
+      // IconNotFound means icon not uploaded yet - not a failure
+      if (err instanceof IconNotFoundError) {
         console.log(`  [SKIP] ${icon.slug} (not on-chain)`);
         notOnChain++;
       } else {
+        const errorMsg = err instanceof Error ? err.message : String(err);
         failures.push({ slug: icon.slug, error: errorMsg });
         failed++;
       }